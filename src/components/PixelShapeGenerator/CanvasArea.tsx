@@ -1,7 +1,18 @@
-import React, { useEffect } from "react";
-import type { ShapeData, SnappingGuide } from "../../constants/pixel-shape";
+import React, { useEffect, useMemo } from "react";
+import type {
+	RendererMode,
+	ShapeData,
+	SnappingGuide,
+} from "../../constants/pixel-shape";
 import { useTheme } from "../../contexts/ThemeContext";
 import { useViewportSize } from "../../hooks/pixel-shape";
+import { renderShapesToCanvas } from "../../utils/shape-render";
+import {
+	querySpatialIndex,
+	type SpatialIndex,
+} from "../../utils/spatial-index";
+import { CanvasOverlay } from "./CanvasOverlay";
+import { CompositorCanvas } from "./CompositorCanvas";
 import { PixelGridLines } from "./PixelGridLines";
 import { PixelShapeDisplay } from "./PixelShapeDisplay";
 
@@ -10,7 +21,12 @@ interface CanvasAreaProps {
 	zoom: number;
 	canvasOffset: { x: number; y: number };
 	shapes: ShapeData[];
+	/** Index of `shapes`, for culling those outside the viewport */
+	spatialIndex: SpatialIndex;
 	selectedShapeId: number | null;
+	lockedColors: string[] | null;
+	rendererMode: RendererMode;
+	onRendererModeChange: (mode: RendererMode) => void;
 	snappingGuides: SnappingGuide[];
 	isDraggingShape: boolean;
 	isPanning: boolean;
@@ -25,7 +41,11 @@ export const CanvasArea = React.memo<CanvasAreaProps>(
 		zoom,
 		canvasOffset,
 		shapes,
+		spatialIndex,
 		selectedShapeId,
+		lockedColors,
+		rendererMode,
+		onRendererModeChange,
 		snappingGuides,
 		isDraggingShape,
 		isPanning,
@@ -55,6 +75,58 @@ export const CanvasArea = React.memo<CanvasAreaProps>(
 			};
 		}, [viewportContainerRef, onPointerDown]);
 
+		// Apply visual drag position during drag for smooth rendering
+		const displayShapes = useMemo(
+			() =>
+				isDraggingShape && visualDragPosition
+					? shapes.map((shape) =>
+							shape.id === selectedShapeId
+								? { ...shape, position: visualDragPosition }
+								: shape,
+						)
+					: shapes,
+			[shapes, isDraggingShape, selectedShapeId, visualDragPosition],
+		);
+		// Only shapes overlapping the viewport are rendered. The index has
+		// the dragged shape where it was picked up, so it is always kept
+		const visibleShapes = useMemo(() => {
+			const visibleIds = new Set(
+				querySpatialIndex(spatialIndex, {
+					x: -canvasOffset.x / zoom,
+					y: -canvasOffset.y / zoom,
+					width: viewportSize.width / zoom,
+					height: viewportSize.height / zoom,
+				}).map((shape) => shape.id),
+			);
+			return displayShapes.filter(
+				(shape) =>
+					visibleIds.has(shape.id) ||
+					(isDraggingShape && shape.id === selectedShapeId),
+			);
+		}, [
+			displayShapes,
+			spatialIndex,
+			zoom,
+			canvasOffset,
+			viewportSize,
+			isDraggingShape,
+			selectedShapeId,
+		]);
+		const selectedShape = displayShapes.find(
+			(shape) => shape.id === selectedShapeId,
+		);
+
+		// Exports the composited document, blend modes included, as a PNG
+		const handleExport = () => {
+			const canvas = renderShapesToCanvas(shapes, lockedColors);
+			if (!canvas) return;
+
+			const link = document.createElement("a");
+			link.href = canvas.toDataURL("image/png");
+			link.download = "pixel-shapes.png";
+			link.click();
+		};
+
 		const getCursor = () => {
 			if (isPanning) return "grabbing";
 			if (isDraggingShape) return "move";
@@ -90,6 +162,39 @@ export const CanvasArea = React.memo<CanvasAreaProps>(
 					>
 						Reset View
 					</button>
+					<button
+						type="button"
+						onClick={handleExport}
+						disabled={shapes.length === 0}
+						className={`
+              px-3 py-1 rounded-md text-sm transition-colors disabled:opacity-50
+              ${
+								isDarkMode
+									? "bg-gray-700 hover:bg-gray-600 text-gray-200"
+									: "bg-gray-200 hover:bg-gray-300 text-gray-700"
+							}
+            `}
+					>
+						Export PNG
+					</button>
+					<button
+						type="button"
+						title="Draw every shape into one canvas, faster for large documents"
+						aria-pressed={rendererMode === "canvas"}
+						onClick={() =>
+							onRendererModeChange(rendererMode === "canvas" ? "dom" : "canvas")
+						}
+						className={`
+              px-3 py-1 rounded-md text-sm transition-colors
+              ${
+								isDarkMode
+									? "bg-gray-700 hover:bg-gray-600 text-gray-200"
+									: "bg-gray-200 hover:bg-gray-300 text-gray-700"
+							}
+            `}
+					>
+						Renderer: {rendererMode === "canvas" ? "Canvas" : "DOM"}
+					</button>
 				</div>
 
 				{/* Full Screen Canvas */}
@@ -126,50 +231,36 @@ export const CanvasArea = React.memo<CanvasAreaProps>(
 							viewportHeight={viewportSize.height}
 						/>
 
-						{shapes.map((shape) => {
-							// Apply visual drag position during drag for smooth rendering
-							const isDragging =
-								isDraggingShape &&
-								selectedShapeId === shape.id &&
-								visualDragPosition;
-							const displayShape = isDragging
-								? { ...shape, position: visualDragPosition }
-								: shape;
-
-							return (
+						{rendererMode === "dom" &&
+							visibleShapes.map((shape) => (
 								<PixelShapeDisplay
 									key={shape.id}
-									shapeData={displayShape}
+									shapeData={shape}
 									zoom={zoom}
-									isSelected={selectedShapeId === shape.id}
+									lockedColors={lockedColors}
 								/>
-							);
-						})}
-
-						{snappingGuides.map((guide) => (
-							<div
-								key={guide.id}
-								className="absolute bg-red-500 opacity-75"
-								style={{
-									...(guide.type === "V"
-										? {
-												left: `${guide.x! * zoom}px`,
-												top: `${guide.startY! * zoom}px`,
-												width: "1px",
-												height: `${(guide.endY! - guide.startY!) * zoom}px`,
-											}
-										: {
-												left: `${guide.startX! * zoom}px`,
-												top: `${guide.y! * zoom}px`,
-												width: `${(guide.endX! - guide.startX!) * zoom}px`,
-												height: "1px",
-											}),
-									zIndex: 20,
-								}}
-							/>
-						))}
+							))}
 					</div>
 
+					{rendererMode === "canvas" && (
+						<CompositorCanvas
+							shapes={visibleShapes}
+							zoom={zoom}
+							canvasOffset={canvasOffset}
+							viewportWidth={viewportSize.width}
+							viewportHeight={viewportSize.height}
+							lockedColors={lockedColors}
+						/>
+					)}
+
+					<CanvasOverlay
+						zoom={zoom}
+						canvasOffset={canvasOffset}
+						selectedShape={selectedShape}
+						isDraggingShape={isDraggingShape}
+						snappingGuides={snappingGuides}
+					/>
+
 					{/* Empty state message - centered to viewport */}
 					{shapes.length === 0 && (
 						<div
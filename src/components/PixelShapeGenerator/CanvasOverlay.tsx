@@ -0,0 +1,87 @@
+import React from "react";
+import type { ShapeData, SnappingGuide } from "../../constants/pixel-shape";
+import { getCachedRaster, getShapeHandles } from "../../utils/pixel-shape";
+
+interface CanvasOverlayProps {
+	zoom: number;
+	canvasOffset: { x: number; y: number };
+	/** Selected top-level shape, with any drag position applied */
+	selectedShape: ShapeData | undefined;
+	isDraggingShape: boolean;
+	snappingGuides: SnappingGuide[];
+}
+
+/**
+ * Editing chrome drawn above the shapes, whichever renderer draws them:
+ * the selection ring, on-canvas handles and snapping guides. It is kept
+ * out of the shapes' layer so blend modes don't apply to it.
+ */
+export const CanvasOverlay = React.memo<CanvasOverlayProps>(
+	({ zoom, canvasOffset, selectedShape, isDraggingShape, snappingGuides }) => {
+		const raster = selectedShape && getCachedRaster(selectedShape);
+		// On-canvas handles (e.g. curve control points) for the selected shape
+		const handles =
+			selectedShape && !isDraggingShape ? getShapeHandles(selectedShape) : [];
+
+		return (
+			<div
+				className="absolute w-full h-full pointer-events-none"
+				style={{
+					transform: `translate(${canvasOffset.x}px, ${canvasOffset.y}px)`,
+					willChange: "transform",
+				}}
+			>
+				{selectedShape && raster && (
+					<div
+						className="absolute ring-2 ring-indigo-500"
+						style={{
+							left: `${(selectedShape.position.x + raster.offsetX) * zoom}px`,
+							top: `${(selectedShape.position.y + raster.offsetY) * zoom}px`,
+							width: `${raster.width * zoom}px`,
+							height: `${raster.height * zoom}px`,
+							zIndex: 10,
+						}}
+					/>
+				)}
+
+				{handles.map((handle, index) => (
+					<div
+						key={`handle-${index}`}
+						className="absolute w-2 h-2 bg-white border border-indigo-500 rounded-sm"
+						style={{
+							left: `${(handle.x + 0.5) * zoom}px`,
+							top: `${(handle.y + 0.5) * zoom}px`,
+							transform: "translate(-50%, -50%)",
+							zIndex: 30,
+						}}
+					/>
+				))}
+
+				{snappingGuides.map((guide) => (
+					<div
+						key={guide.id}
+						className="absolute bg-red-500 opacity-75"
+						style={{
+							...(guide.type === "V"
+								? {
+										left: `${guide.x! * zoom}px`,
+										top: `${guide.startY! * zoom}px`,
+										width: "1px",
+										height: `${(guide.endY! - guide.startY!) * zoom}px`,
+									}
+								: {
+										left: `${guide.startX! * zoom}px`,
+										top: `${guide.y! * zoom}px`,
+										width: `${(guide.endX! - guide.startX!) * zoom}px`,
+										height: "1px",
+									}),
+							zIndex: 20,
+						}}
+					/>
+				))}
+			</div>
+		);
+	},
+);
+
+CanvasOverlay.displayName = "CanvasOverlay";
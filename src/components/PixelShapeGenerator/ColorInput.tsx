@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { cn } from '../../lib/utils';
+import {
+  formatColor,
+  parseColor,
+  toOpaqueHex,
+  toRgba,
+} from '../../utils/css-color';
+import { Input } from '../ui/input';
+
+interface ColorInputProps {
+  id: string;
+  /** Colour in canonical form */
+  value: string;
+  onChange: (color: string) => void;
+  /** Classes for the swatch, which sets its size */
+  swatchClassName?: string;
+}
+
+/**
+ * A colour picker next to a text field that takes any CSS colour, such
+ * as rgb(), hsl(), 8-digit hex or a name pasted from a design tool. Text
+ * is applied on Enter or blur; Escape discards it.
+ */
+export const ColorInput: React.FC<ColorInputProps> = ({
+  id,
+  value,
+  onChange,
+  swatchClassName = 'w-12 h-12',
+}) => {
+  // Text being typed, or null to show the current colour
+  const [draft, setDraft] = useState<string | null>(null);
+  const rgba = toRgba(value);
+  const isInvalid = draft !== null && parseColor(draft) === null;
+
+  const commit = () => {
+    if (draft === null) return;
+    const color = parseColor(draft);
+    if (!color) return;
+    setDraft(null);
+    onChange(formatColor(color));
+  };
+
+  return (
+    <div className='flex items-center space-x-3'>
+      <input
+        id={id}
+        type='color'
+        // The picker has no alpha, so picked colours keep the current one
+        value={toOpaqueHex(value)}
+        onChange={(e) => {
+          const picked = parseColor(e.target.value);
+          if (picked) onChange(formatColor({ ...picked, a: rgba.a }));
+        }}
+        className={cn(
+          'rounded-lg border border-input cursor-pointer shadow-sm hover:shadow-md transition-shadow',
+          swatchClassName
+        )}
+      />
+      <Input
+        aria-label='CSS color'
+        aria-invalid={isInvalid}
+        value={draft ?? value.toUpperCase()}
+        spellCheck={false}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setDraft(null);
+        }}
+        className='font-mono'
+      />
+    </div>
+  );
+};
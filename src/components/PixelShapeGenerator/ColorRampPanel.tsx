@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import type {
+  ColorRampOptions,
+  RampColorSpace,
+} from '../../constants/pixel-shape';
+import {
+  MAX_RAMP_STEPS,
+  MIN_RAMP_STEPS,
+  RAMP_COLOR_SPACES,
+} from '../../constants/pixel-shape';
+import { generateColorRamp } from '../../utils/color-ramp';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Label } from '../ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import { Slider } from '../ui/slider';
+
+const RAMP_COLOR_SPACE_LABELS: Record<RampColorSpace, string> = {
+  hsl: 'HSL',
+  oklch: 'OKLCH',
+};
+
+type RampTarget = 'fill' | 'outline';
+
+interface ColorRampPanelProps {
+  baseColor: string;
+  options: ColorRampOptions;
+  onOptionsChange: (options: Partial<ColorRampOptions>) => void;
+  onPickFill: (color: string) => void;
+  onPickOutline: (color: string) => void;
+}
+
+export const ColorRampPanel: React.FC<ColorRampPanelProps> = ({
+  baseColor,
+  options,
+  onOptionsChange,
+  onPickFill,
+  onPickOutline,
+}) => {
+  const [target, setTarget] = useState<RampTarget>('fill');
+  const ramp = useMemo(
+    () => generateColorRamp(baseColor, options),
+    [baseColor, options]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='text-sm font-semibold tracking-wider'>
+          Color Ramp
+        </CardTitle>
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        <div className='space-y-2'>
+          <div className='flex rounded overflow-hidden border border-input'>
+            {ramp.map((color, index) => (
+              <button
+                key={index}
+                type='button'
+                title={color.toUpperCase()}
+                aria-label={`Use ${color.toUpperCase()} as ${target} color`}
+                onClick={() =>
+                  target === 'fill' ? onPickFill(color) : onPickOutline(color)
+                }
+                className='flex-1 h-8 hover:scale-y-110 transition-transform'
+                style={{ backgroundColor: color }}
+              />
+            ))}
+          </div>
+          <div className='grid grid-cols-2 gap-2'>
+            <Button
+              variant={target === 'fill' ? 'default' : 'outline'}
+              size='sm'
+              onClick={() => setTarget('fill')}
+            >
+              Pick Fill
+            </Button>
+            <Button
+              variant={target === 'outline' ? 'default' : 'outline'}
+              size='sm'
+              onClick={() => setTarget('outline')}
+            >
+              Pick Outline
+            </Button>
+          </div>
+        </div>
+
+        <div className='space-y-2'>
+          <Label className='text-sm'>Color Space</Label>
+          <Select
+            value={options.space}
+            onValueChange={(space: RampColorSpace) => onOptionsChange({ space })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RAMP_COLOR_SPACES.map((space) => (
+                <SelectItem key={space} value={space}>
+                  {RAMP_COLOR_SPACE_LABELS[space]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className='space-y-2'>
+          <div className='flex justify-between items-center'>
+            <Label className='text-sm'>Steps</Label>
+            <span className='text-xs font-mono text-muted-foreground'>
+              {options.steps}
+            </span>
+          </div>
+          <Slider
+            value={[options.steps]}
+            onValueChange={(value) => onOptionsChange({ steps: value[0] })}
+            max={MAX_RAMP_STEPS}
+            min={MIN_RAMP_STEPS}
+            step={1}
+            className='w-full'
+          />
+        </div>
+
+        <div className='space-y-2'>
+          <div className='flex justify-between items-center'>
+            <Label className='text-sm'>Hue Shift</Label>
+            <span className='text-xs font-mono text-muted-foreground'>
+              {options.hueShift}°
+            </span>
+          </div>
+          <Slider
+            value={[options.hueShift]}
+            onValueChange={(value) => onOptionsChange({ hueShift: value[0] })}
+            max={60}
+            min={0}
+            step={1}
+            className='w-full'
+          />
+        </div>
+
+        <div className='space-y-2'>
+          <div className='flex justify-between items-center'>
+            <Label className='text-sm'>Saturation Curve</Label>
+            <span className='text-xs font-mono text-muted-foreground'>
+              {options.saturationCurve.toFixed(2)}
+            </span>
+          </div>
+          <Slider
+            value={[options.saturationCurve]}
+            onValueChange={(value) =>
+              onOptionsChange({ saturationCurve: value[0] })
+            }
+            max={1}
+            min={-1}
+            step={0.05}
+            className='w-full'
+          />
+        </div>
+
+        <div className='space-y-2'>
+          <div className='flex justify-between items-center'>
+            <Label className='text-sm'>Value Curve</Label>
+            <span className='text-xs font-mono text-muted-foreground'>
+              {options.valueCurve.toFixed(2)}
+            </span>
+          </div>
+          <Slider
+            value={[options.valueCurve]}
+            onValueChange={(value) => onOptionsChange({ valueCurve: value[0] })}
+            max={3}
+            min={0.25}
+            step={0.05}
+            className='w-full'
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
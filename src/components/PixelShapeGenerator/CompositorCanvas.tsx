@@ -0,0 +1,66 @@
+import React, { useEffect, useRef } from "react";
+
+import type { ShapeData } from "../../constants/pixel-shape";
+import {
+  renderCompositorFrame,
+  type CompositorFrame,
+} from "../../utils/compositor";
+
+interface CompositorCanvasProps {
+  /** Visible shapes bottom first, with any drag position applied */
+  shapes: ShapeData[];
+  zoom: number;
+  canvasOffset: { x: number; y: number };
+  viewportWidth: number;
+  viewportHeight: number;
+  lockedColors: string[] | null;
+}
+
+/**
+ * Renders the document into a single canvas covering the viewport, in
+ * place of an element per shape. It sits outside the panned container
+ * and draws with the zoom and offset itself.
+ */
+export const CompositorCanvas = React.memo<CompositorCanvasProps>(
+  ({ shapes, zoom, canvasOffset, viewportWidth, viewportHeight, lockedColors }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    // The last frame drawn, so the next one only redraws what changed
+    const frameRef = useRef<CompositorFrame | null>(null);
+    const pixelRatio = window.devicePixelRatio || 1;
+
+    useEffect(() => {
+      const ctx = canvasRef.current?.getContext("2d");
+      if (!ctx) return;
+
+      frameRef.current = renderCompositorFrame(
+        ctx,
+        shapes,
+        {
+          zoom,
+          offset: canvasOffset,
+          width: viewportWidth,
+          height: viewportHeight,
+          pixelRatio,
+        },
+        lockedColors,
+        frameRef.current
+      );
+    }, [shapes, zoom, canvasOffset, viewportWidth, viewportHeight, pixelRatio, lockedColors]);
+
+    return (
+      <canvas
+        ref={canvasRef}
+        width={Math.round(viewportWidth * pixelRatio)}
+        height={Math.round(viewportHeight * pixelRatio)}
+        className="absolute inset-0 pointer-events-none"
+        style={{
+          width: `${viewportWidth}px`,
+          height: `${viewportHeight}px`,
+          imageRendering: "pixelated",
+        }}
+      />
+    );
+  }
+);
+
+CompositorCanvas.displayName = "CompositorCanvas";
@@ -1,6 +1,41 @@
 import React from 'react';
-import type { ShapeData, ShapeType } from '../../constants/pixel-shape';
-import { SHAPE_TYPES } from '../../constants/pixel-shape';
+import type {
+  BitmapTool,
+  BlendMode,
+  FillMode,
+  ColorRampOptions,
+  FillGradient,
+  FillPattern,
+  PaletteEntry,
+  Shading,
+  OutlineConnectivity,
+  OutlinePlacement,
+  OutlineStyle,
+  ShapeData,
+  ShapeOrientation,
+  ShapeParams,
+  ShapeType,
+} from '../../constants/pixel-shape';
+import {
+  BITMAP_TOOLS,
+  BLEND_MODES,
+  FILL_MODES,
+  MAX_OUTLINE_THICKNESS,
+  OUTLINE_CONNECTIVITIES,
+  OUTLINE_PLACEMENTS,
+} from '../../constants/pixel-shape';
+import {
+  BUILT_IN_PALETTE_IDS,
+  BUILT_IN_PALETTES,
+  isPaletteLock,
+  type PaletteLock,
+} from '../../constants/palettes';
+import {
+  getShapeDefinition,
+  getShapeDefinitions,
+  type ShapeParamValue,
+} from '../../shapes';
+import { findSwatchId, toSwatches } from '../../utils/palette';
 import { Button } from '../ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Input } from '../ui/input';
@@ -13,6 +48,50 @@ import {
   SelectValue,
 } from '../ui/select';
 import { Slider } from '../ui/slider';
+import { Switch } from '../ui/switch';
+import { ColorInput } from './ColorInput';
+import { ColorRampPanel } from './ColorRampPanel';
+import { FillGradientControl } from './FillGradientControl';
+import { FillPatternControl } from './FillPatternControl';
+import { PaletteFileCard } from './PaletteFileCard';
+import { PaletteStrip } from './PaletteStrip';
+import { ShadingControl } from './ShadingControl';
+import { ShapeParamControl } from './ShapeParamControl';
+
+const OUTLINE_PLACEMENT_LABELS: Record<OutlinePlacement, string> = {
+  inside: 'Inside',
+  outside: 'Outside',
+  center: 'Centered',
+};
+
+const OUTLINE_CONNECTIVITY_LABELS: Record<OutlineConnectivity, string> = {
+  4: '4-connected',
+  8: '8-connected',
+};
+
+const BITMAP_TOOL_LABELS: Record<BitmapTool, string> = {
+  pencil: 'Pencil',
+  eraser: 'Eraser',
+  fill: 'Fill',
+};
+
+const BLEND_MODE_LABELS: Record<BlendMode, string> = {
+  normal: 'Normal',
+  multiply: 'Multiply',
+  screen: 'Screen',
+  overlay: 'Overlay',
+  add: 'Add',
+  darken: 'Darken',
+  lighten: 'Lighten',
+};
+
+const PALETTE_LOCK_OFF = 'off';
+
+const FILL_MODE_LABELS: Record<FillMode, string> = {
+  outline: 'Outline only',
+  fill: 'Filled',
+  'fill-outline': 'Filled + outline',
+};
 
 interface ControlsPanelProps {
   // Form state
@@ -20,7 +99,16 @@ interface ControlsPanelProps {
   width: number | null;
   height: number | null;
   currentShapeBaseColor: string;
+  currentShapeOutlineColor: string | null;
+  currentShapeOutlineStyle: OutlineStyle;
+  currentShapeOrientation: ShapeOrientation;
+  currentShapeFillMode: FillMode;
+  currentShapeFillPattern: FillPattern;
+  currentShapeFillGradient: FillGradient;
+  currentShapeShading: Shading;
   currentShapeOpacity: number;
+  currentShapeBlendMode: BlendMode;
+  currentShapeParams: ShapeParams;
   isEditing: boolean;
   selectedShapeObject: ShapeData | undefined;
 
@@ -28,8 +116,38 @@ interface ControlsPanelProps {
   onShapeTypeChange: (type: ShapeType) => void;
   onWidthChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onHeightChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  onColorChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onColorChange: (color: string) => void;
+  onOutlineColorChange: (color: string | null) => void;
+  onOutlineStyleChange: (style: Partial<OutlineStyle>) => void;
+  onOrientationChange: (orientation: Partial<ShapeOrientation>) => void;
+  onFillModeChange: (mode: FillMode) => void;
+  onFillPatternChange: (pattern: Partial<FillPattern>) => void;
+  onFillGradientChange: (gradient: Partial<FillGradient>) => void;
+  onShadingChange: (shading: Partial<Shading>) => void;
+  rampOptions: ColorRampOptions;
+  onRampOptionsChange: (options: Partial<ColorRampOptions>) => void;
+  onBaseColorPick: (color: string) => void;
+  onOutlineColorPick: (color: string) => void;
+  palette: PaletteEntry[];
+  currentShapeBaseColorRef: number | null;
+  currentShapeOutlineColorRef: number | null;
+  onBaseColorRefChange: (id: number | null) => void;
+  onOutlineColorRefChange: (id: number | null) => void;
+  onPaletteAdd: (color: string) => number | null;
+  onPaletteRemove: (id: number) => void;
+  onPaletteImport: (colors: Omit<PaletteEntry, 'id'>[]) => number;
+  paletteLock: PaletteLock | null;
+  /** Colours the lock allows, or null when colours are free */
+  lockedColors: string[] | null;
+  onPaletteLockChange: (lock: PaletteLock | null) => void;
   onOpacityChange: (value: number[]) => void;
+  onBlendModeChange: (mode: BlendMode) => void;
+  onParamChange: (key: string, value: ShapeParamValue) => void;
+  bitmapTool: BitmapTool | null;
+  /** Whether the bitmap tools can paint the selected shape */
+  canPaintPixels: boolean;
+  onBitmapToolChange: (tool: BitmapTool | null) => void;
+  onConvertToBitmap: () => void;
   onFormSubmit: () => void;
 }
 
@@ -39,16 +157,78 @@ export const ControlsPanel = React.memo<ControlsPanelProps>(
     width,
     height,
     currentShapeBaseColor,
+    currentShapeOutlineColor,
+    currentShapeOutlineStyle,
+    currentShapeOrientation,
+    currentShapeFillMode,
+    currentShapeFillPattern,
+    currentShapeFillGradient,
+    currentShapeShading,
     currentShapeOpacity,
+    currentShapeBlendMode,
+    currentShapeParams,
     isEditing,
     selectedShapeObject,
     onShapeTypeChange,
     onWidthChange,
     onHeightChange,
     onColorChange,
+    onOutlineColorChange,
+    onOutlineStyleChange,
+    onOrientationChange,
+    onFillModeChange,
+    onFillPatternChange,
+    onFillGradientChange,
+    onShadingChange,
+    rampOptions,
+    onRampOptionsChange,
+    onBaseColorPick,
+    onOutlineColorPick,
+    palette,
+    currentShapeBaseColorRef,
+    currentShapeOutlineColorRef,
+    onBaseColorRefChange,
+    onOutlineColorRefChange,
+    onPaletteAdd,
+    onPaletteRemove,
+    onPaletteImport,
+    paletteLock,
+    lockedColors,
+    onPaletteLockChange,
     onOpacityChange,
+    onBlendModeChange,
+    onParamChange,
+    bitmapTool,
+    canPaintPixels,
+    onBitmapToolChange,
+    onConvertToBitmap,
     onFormSubmit,
   }) => {
+    const { paramFields, getSize } = getShapeDefinition(currentShapeType);
+    const paramValues = currentShapeParams as Record<string, ShapeParamValue>;
+    // Size is derived from the params (e.g. line vertices) for some shapes
+    const isSizeDerived = getSize !== undefined;
+    const hasOutline = currentShapeFillMode !== 'fill';
+    // A document lock picks linked palette entries, a built-in lock picks
+    // plain colours
+    const isDocumentLock = paletteLock === 'document';
+    const lockSwatches =
+      lockedColors === null ? null
+      : isDocumentLock ? palette
+      : toSwatches(lockedColors);
+    const pickLockedSwatch = (
+      id: number,
+      onRefChange: (id: number | null) => void,
+      onPick: (color: string) => void
+    ) => {
+      if (isDocumentLock) onRefChange(id);
+      else if (lockedColors) onPick(lockedColors[id]);
+    };
+    const rotateBy = (degrees: number) =>
+      onOrientationChange({
+        rotation: (currentShapeOrientation.rotation + degrees + 360) % 360,
+      });
+
     return (
       <div className='h-full flex flex-col space-y-4'>
         {/* Shape Type Selection */}
@@ -68,11 +248,17 @@ export const ControlsPanel = React.memo<ControlsPanelProps>(
                 <SelectValue placeholder='Select a shape type' />
               </SelectTrigger>
               <SelectContent>
-                {SHAPE_TYPES.map((type) => (
-                  <SelectItem key={type} value={type}>
-                    {type.charAt(0).toUpperCase() + type.slice(1)}
-                  </SelectItem>
-                ))}
+                {getShapeDefinitions()
+                  .filter(
+                    (definition) =>
+                      definition.listed !== false ||
+                      definition.type === currentShapeType
+                  )
+                  .map((definition) => (
+                    <SelectItem key={definition.type} value={definition.type}>
+                      {definition.label}
+                    </SelectItem>
+                  ))}
               </SelectContent>
             </Select>
           </CardContent>
@@ -97,6 +283,7 @@ export const ControlsPanel = React.memo<ControlsPanelProps>(
                     type='text'
                     value={width || ''}
                     onChange={onWidthChange}
+                    disabled={isSizeDerived}
                     placeholder='Width'
                     className='pr-8 [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none [-moz-appearance:textfield]'
                     pattern='[0-9]*'
@@ -117,6 +304,7 @@ export const ControlsPanel = React.memo<ControlsPanelProps>(
                     type='text'
                     value={height || ''}
                     onChange={onHeightChange}
+                    disabled={isSizeDerived}
                     placeholder='Height'
                     className='pr-8 [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none [-moz-appearance:textfield]'
                     pattern='[0-9]*'
@@ -131,6 +319,137 @@ export const ControlsPanel = React.memo<ControlsPanelProps>(
           </CardContent>
         </Card>
 
+        {/* Shape Parameters */}
+        {paramFields.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className='text-sm font-semibold tracking-wider'>
+                Parameters
+              </CardTitle>
+            </CardHeader>
+            <CardContent className='space-y-4'>
+              {paramFields.map((field) => (
+                <ShapeParamControl
+                  key={field.key}
+                  field={field}
+                  value={paramValues[field.key]}
+                  onChange={onParamChange}
+                />
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Pixel Editing - only for shapes already on the canvas */}
+        {isEditing && (
+          <Card>
+            <CardHeader>
+              <CardTitle className='text-sm font-semibold tracking-wider'>
+                Pixel Editing
+              </CardTitle>
+            </CardHeader>
+            <CardContent className='space-y-2'>
+              {currentShapeType === 'custom' ? (
+                <>
+                  <div className='grid grid-cols-3 gap-2'>
+                    {BITMAP_TOOLS.map((tool) => (
+                      <Button
+                        key={tool}
+                        variant={bitmapTool === tool ? 'default' : 'outline'}
+                        size='sm'
+                        disabled={!canPaintPixels}
+                        onClick={() =>
+                          onBitmapToolChange(bitmapTool === tool ? null : tool)
+                        }
+                      >
+                        {BITMAP_TOOL_LABELS[tool]}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className='text-xs text-muted-foreground'>
+                    {!canPaintPixels
+                      ? "Shapes inside a composite can't be painted. Separate it to edit pixels."
+                      : bitmapTool
+                        ? 'Draw on the shape in the canvas. Hold Space to pan.'
+                        : 'Pick a tool to edit pixels on the canvas.'}
+                  </p>
+                </>
+              ) : (
+                <>
+                  <Button
+                    variant='outline'
+                    size='sm'
+                    className='w-full'
+                    onClick={onConvertToBitmap}
+                  >
+                    Convert to Bitmap
+                  </Button>
+                  <p className='text-xs text-muted-foreground'>
+                    Freezes the shape into pixels that can be edited by hand.
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Transform */}
+        <Card>
+          <CardHeader>
+            <CardTitle className='text-sm font-semibold tracking-wider'>
+              Transform
+            </CardTitle>
+          </CardHeader>
+          <CardContent className='space-y-4'>
+            <div className='space-y-2'>
+              <div className='flex justify-between items-center'>
+                <Label className='text-sm'>Rotation</Label>
+                <span className='text-xs font-mono text-muted-foreground'>
+                  {currentShapeOrientation.rotation}°
+                </span>
+              </div>
+              <Slider
+                value={[currentShapeOrientation.rotation]}
+                onValueChange={(value) =>
+                  onOrientationChange({ rotation: value[0] })
+                }
+                max={359}
+                min={0}
+                step={1}
+                className='w-full'
+              />
+              <div className='grid grid-cols-2 gap-2'>
+                <Button variant='outline' size='sm' onClick={() => rotateBy(-90)}>
+                  Rotate -90°
+                </Button>
+                <Button variant='outline' size='sm' onClick={() => rotateBy(90)}>
+                  Rotate +90°
+                </Button>
+              </div>
+            </div>
+            <div className='flex justify-between items-center'>
+              <Label htmlFor='flip-x' className='text-sm'>
+                Flip Horizontal
+              </Label>
+              <Switch
+                id='flip-x'
+                checked={currentShapeOrientation.flipX}
+                onCheckedChange={(flipX) => onOrientationChange({ flipX })}
+              />
+            </div>
+            <div className='flex justify-between items-center'>
+              <Label htmlFor='flip-y' className='text-sm'>
+                Flip Vertical
+              </Label>
+              <Switch
+                id='flip-y'
+                checked={currentShapeOrientation.flipY}
+                onCheckedChange={(flipY) => onOrientationChange({ flipY })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Appearance */}
         <Card className='flex-1'>
           <CardHeader>
@@ -139,26 +458,268 @@ export const ControlsPanel = React.memo<ControlsPanelProps>(
             </CardTitle>
           </CardHeader>
           <CardContent className='space-y-4'>
-            {/* Color Picker */}
+            {/* Fill Mode */}
             <div className='space-y-2'>
-              <Label htmlFor='color' className='text-sm'>
-                Color
-              </Label>
-              <div className='flex items-center space-x-3'>
-                <div className='relative'>
-                  <input
-                    id='color'
-                    type='color'
-                    value={currentShapeBaseColor}
-                    onChange={onColorChange}
-                    className='w-12 h-12 rounded-lg border border-input cursor-pointer shadow-sm hover:shadow-md transition-shadow'
+              <Label className='text-sm'>Fill</Label>
+              <Select value={currentShapeFillMode} onValueChange={onFillModeChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FILL_MODES.map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {FILL_MODE_LABELS[mode]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Palette Lock */}
+            <div className='space-y-2'>
+              <Label className='text-sm'>Palette Lock</Label>
+              <Select
+                value={paletteLock ?? PALETTE_LOCK_OFF}
+                onValueChange={(value) =>
+                  onPaletteLockChange(isPaletteLock(value) ? value : null)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PALETTE_LOCK_OFF}>Off</SelectItem>
+                  <SelectItem value='document'>Document Palette</SelectItem>
+                  {BUILT_IN_PALETTE_IDS.map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {BUILT_IN_PALETTES[id].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {paletteLock !== null && (
+                <p className='text-xs text-muted-foreground'>
+                  {lockedColors === null
+                    ? 'Add colors to the palette to lock to it.'
+                    : `Every color snaps to the nearest of ${lockedColors.length} colors.`}
+                </p>
+              )}
+            </div>
+
+            {/* Color Picker */}
+            {lockSwatches ? (
+              <div className='space-y-2'>
+                <Label className='text-sm'>
+                  Color{' '}
+                  <span className='font-mono text-muted-foreground'>
+                    {currentShapeBaseColor.toUpperCase()}
+                  </span>
+                </Label>
+                <PaletteStrip
+                  palette={lockSwatches}
+                  selectedId={
+                    currentShapeBaseColorRef ??
+                    findSwatchId(lockSwatches, currentShapeBaseColor)
+                  }
+                  onSelect={(id) =>
+                    pickLockedSwatch(id, onBaseColorRefChange, onBaseColorPick)
+                  }
+                />
+              </div>
+            ) : (
+              <div className='space-y-2'>
+                <Label htmlFor='color' className='text-sm'>
+                  Color
+                </Label>
+                <ColorInput
+                  id='color'
+                  value={currentShapeBaseColor}
+                  onChange={onColorChange}
+                />
+                <PaletteStrip
+                  palette={palette}
+                  selectedId={currentShapeBaseColorRef}
+                  onSelect={onBaseColorRefChange}
+                  onAdd={() => onBaseColorRefChange(onPaletteAdd(currentShapeBaseColor))}
+                />
+                {currentShapeBaseColorRef !== null && (
+                  <div className='space-y-2'>
+                    <p className='text-xs text-muted-foreground'>
+                      Linked to the palette. Editing the color recolors every
+                      linked shape.
+                    </p>
+                    <div className='grid grid-cols-2 gap-2'>
+                      <Button
+                        variant='outline'
+                        size='sm'
+                        onClick={() => onBaseColorRefChange(null)}
+                      >
+                        Unlink
+                      </Button>
+                      <Button
+                        variant='outline'
+                        size='sm'
+                        onClick={() => onPaletteRemove(currentShapeBaseColorRef)}
+                      >
+                        Remove Swatch
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Fill Pattern */}
+            {currentShapeFillMode !== 'outline' && (
+              <FillPatternControl
+                pattern={currentShapeFillPattern}
+                onChange={onFillPatternChange}
+                lockedColors={lockedColors}
+              />
+            )}
+
+            {/* Fill Gradient */}
+            {currentShapeFillMode !== 'outline' && (
+              <FillGradientControl
+                gradient={currentShapeFillGradient}
+                onChange={onFillGradientChange}
+                lockedColors={lockedColors}
+              />
+            )}
+
+            {/* Shading */}
+            {currentShapeFillMode !== 'outline' && (
+              <ShadingControl
+                shading={currentShapeShading}
+                baseColor={currentShapeBaseColor}
+                onChange={onShadingChange}
+              />
+            )}
+
+            {/* Outline Color */}
+            {hasOutline && (
+              <div className='space-y-2'>
+                <div className='flex justify-between items-center'>
+                  <Label htmlFor='outline-color' className='text-sm'>
+                    Outline Color
+                  </Label>
+                  <div className='flex items-center space-x-2'>
+                    <Label htmlFor='outline-auto' className='text-xs text-muted-foreground'>
+                      Auto
+                    </Label>
+                    <Switch
+                      id='outline-auto'
+                      checked={currentShapeOutlineColor === null}
+                      onCheckedChange={(checked) =>
+                        onOutlineColorChange(checked ? null : currentShapeBaseColor)
+                      }
+                    />
+                  </div>
+                </div>
+                {currentShapeOutlineColor === null ? (
+                  <p className='text-xs text-muted-foreground'>
+                    Shadow tone from the base color's ramp
+                  </p>
+                ) : lockSwatches ? (
+                  <PaletteStrip
+                    palette={lockSwatches}
+                    selectedId={
+                      currentShapeOutlineColorRef ??
+                      findSwatchId(lockSwatches, currentShapeOutlineColor)
+                    }
+                    onSelect={(id) =>
+                      pickLockedSwatch(id, onOutlineColorRefChange, onOutlineColorPick)
+                    }
+                  />
+                ) : (
+                  <ColorInput
+                    id='outline-color'
+                    value={currentShapeOutlineColor}
+                    onChange={onOutlineColorChange}
+                  />
+                )}
+                {currentShapeOutlineColor !== null && !lockSwatches && (
+                  <PaletteStrip
+                    palette={palette}
+                    selectedId={currentShapeOutlineColorRef}
+                    onSelect={onOutlineColorRefChange}
+                    onAdd={() =>
+                      onOutlineColorRefChange(onPaletteAdd(currentShapeOutlineColor))
+                    }
                   />
+                )}
+              </div>
+            )}
+
+            {/* Outline Thickness & Placement */}
+            {hasOutline && (
+              <div className='space-y-2'>
+                <div className='flex justify-between items-center'>
+                  <Label className='text-sm'>Outline Thickness</Label>
+                  <span className='text-xs font-mono text-muted-foreground'>
+                    {currentShapeOutlineStyle.thickness}px
+                  </span>
                 </div>
-                <div className='text-sm font-mono text-muted-foreground'>
-                  {currentShapeBaseColor.toUpperCase()}
+                <Slider
+                  value={[currentShapeOutlineStyle.thickness]}
+                  onValueChange={(value) =>
+                    onOutlineStyleChange({ thickness: value[0] })
+                  }
+                  max={MAX_OUTLINE_THICKNESS}
+                  min={1}
+                  step={1}
+                  className='w-full'
+                />
+                <Select
+                  value={currentShapeOutlineStyle.placement}
+                  onValueChange={(placement: OutlinePlacement) =>
+                    onOutlineStyleChange({ placement })
+                  }
+                >
+                  <SelectTrigger aria-label='Outline placement'>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OUTLINE_PLACEMENTS.map((placement) => (
+                      <SelectItem key={placement} value={placement}>
+                        {OUTLINE_PLACEMENT_LABELS[placement]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={String(currentShapeOutlineStyle.connectivity)}
+                  onValueChange={(value) =>
+                    onOutlineStyleChange({
+                      connectivity: Number(value) as OutlineConnectivity,
+                    })
+                  }
+                >
+                  <SelectTrigger aria-label='Outline connectivity'>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OUTLINE_CONNECTIVITIES.map((connectivity) => (
+                      <SelectItem key={connectivity} value={String(connectivity)}>
+                        {OUTLINE_CONNECTIVITY_LABELS[connectivity]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className='flex justify-between items-center'>
+                  <Label htmlFor='pixel-perfect' className='text-sm'>
+                    Pixel-Perfect
+                  </Label>
+                  <Switch
+                    id='pixel-perfect'
+                    checked={currentShapeOutlineStyle.pixelPerfect}
+                    onCheckedChange={(pixelPerfect) =>
+                      onOutlineStyleChange({ pixelPerfect })
+                    }
+                  />
                 </div>
               </div>
-            </div>
+            )}
 
             {/* Opacity Slider */}
             <div className='space-y-2'>
@@ -177,16 +738,49 @@ export const ControlsPanel = React.memo<ControlsPanelProps>(
                 className='w-full'
               />
             </div>
+
+            {/* Blend Mode */}
+            <div className='space-y-2'>
+              <Label className='text-sm'>Blend Mode</Label>
+              <Select value={currentShapeBlendMode} onValueChange={onBlendModeChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BLEND_MODES.map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {BLEND_MODE_LABELS[mode]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </CardContent>
         </Card>
 
+        {/* Color Ramp */}
+        <ColorRampPanel
+          baseColor={currentShapeBaseColor}
+          options={rampOptions}
+          onOptionsChange={onRampOptionsChange}
+          onPickFill={onBaseColorPick}
+          onPickOutline={onOutlineColorPick}
+        />
+
+        {/* Palette Files */}
+        <PaletteFileCard palette={palette} onImport={onPaletteImport} />
+
         {/* Action Button */}
         <Button onClick={onFormSubmit} className='w-full' size='lg'>
           <div className='flex items-center justify-center space-x-2'>
             <span>
               {isEditing
-                ? `Update ${selectedShapeObject?.type || 'Shape'}`
-                : `Add ${currentShapeType}`}
+                ? `Update ${
+                    selectedShapeObject
+                      ? getShapeDefinition(selectedShapeObject.type).label
+                      : 'Shape'
+                  }`
+                : `Add ${getShapeDefinition(currentShapeType).label}`}
             </span>
             <svg
               className='w-5 h-5'
@@ -0,0 +1,167 @@
+import React from 'react';
+import type {
+  FillGradient,
+  GradientType,
+} from '../../constants/pixel-shape';
+import {
+  GRADIENT_TYPES,
+  MAX_GRADIENT_STEPS,
+} from '../../constants/pixel-shape';
+import { findSwatchId, toSwatches } from '../../utils/palette';
+import { Label } from '../ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import { Slider } from '../ui/slider';
+import { Switch } from '../ui/switch';
+import { ColorInput } from './ColorInput';
+import { PaletteStrip } from './PaletteStrip';
+
+const GRADIENT_TYPE_LABELS: Record<GradientType, string> = {
+  none: 'None',
+  linear: 'Linear',
+  radial: 'Radial',
+};
+
+interface FillGradientControlProps {
+  gradient: FillGradient;
+  onChange: (gradient: Partial<FillGradient>) => void;
+  /** Colours of the palette lock, replacing the free colour input */
+  lockedColors?: string[] | null;
+}
+
+export const FillGradientControl: React.FC<FillGradientControlProps> = ({
+  gradient,
+  onChange,
+  lockedColors = null,
+}) => (
+  <div className='space-y-2'>
+    <Label className='text-sm'>Gradient</Label>
+    <Select
+      value={gradient.type}
+      onValueChange={(type: GradientType) => onChange({ type })}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {GRADIENT_TYPES.map((type) => (
+          <SelectItem key={type} value={type}>
+            {GRADIENT_TYPE_LABELS[type]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+
+    {gradient.type !== 'none' && (
+      <>
+        {lockedColors === null ? (
+          <div className='space-y-1'>
+            <Label htmlFor='gradient-color' className='text-xs text-muted-foreground'>
+              End color
+            </Label>
+            <ColorInput
+              id='gradient-color'
+              value={gradient.color}
+              onChange={(color) => onChange({ color })}
+              swatchClassName='w-10 h-10'
+            />
+          </div>
+        ) : (
+          <div className='space-y-1'>
+            <Label className='text-xs text-muted-foreground'>
+              End color {gradient.color.toUpperCase()}
+            </Label>
+            <PaletteStrip
+              palette={toSwatches(lockedColors)}
+              selectedId={findSwatchId(toSwatches(lockedColors), gradient.color)}
+              onSelect={(id) => onChange({ color: lockedColors[id] })}
+            />
+          </div>
+        )}
+
+        <div className='flex justify-between items-center'>
+          <Label className='text-xs text-muted-foreground'>Steps</Label>
+          <span className='text-xs font-mono text-muted-foreground'>
+            {gradient.steps}
+          </span>
+        </div>
+        <Slider
+          value={[gradient.steps]}
+          onValueChange={(value) => onChange({ steps: value[0] })}
+          max={MAX_GRADIENT_STEPS}
+          min={2}
+          step={1}
+          className='w-full'
+        />
+
+        {gradient.type === 'linear' && (
+          <>
+            <div className='flex justify-between items-center'>
+              <Label className='text-xs text-muted-foreground'>Angle</Label>
+              <span className='text-xs font-mono text-muted-foreground'>
+                {gradient.angle}°
+              </span>
+            </div>
+            <Slider
+              value={[gradient.angle]}
+              onValueChange={(value) => onChange({ angle: value[0] })}
+              max={359}
+              min={0}
+              step={1}
+              className='w-full'
+            />
+          </>
+        )}
+
+        {gradient.type === 'radial' && (
+          <>
+            <div className='flex justify-between items-center'>
+              <Label className='text-xs text-muted-foreground'>Center X</Label>
+              <span className='text-xs font-mono text-muted-foreground'>
+                {Math.round(gradient.centerX * 100)}%
+              </span>
+            </div>
+            <Slider
+              value={[gradient.centerX]}
+              onValueChange={(value) => onChange({ centerX: value[0] })}
+              max={1}
+              min={0}
+              step={0.01}
+              className='w-full'
+            />
+            <div className='flex justify-between items-center'>
+              <Label className='text-xs text-muted-foreground'>Center Y</Label>
+              <span className='text-xs font-mono text-muted-foreground'>
+                {Math.round(gradient.centerY * 100)}%
+              </span>
+            </div>
+            <Slider
+              value={[gradient.centerY]}
+              onValueChange={(value) => onChange({ centerY: value[0] })}
+              max={1}
+              min={0}
+              step={0.01}
+              className='w-full'
+            />
+          </>
+        )}
+
+        <div className='flex items-center justify-between'>
+          <Label htmlFor='gradient-dither' className='text-xs text-muted-foreground'>
+            Dither between steps
+          </Label>
+          <Switch
+            id='gradient-dither'
+            checked={gradient.dither}
+            onCheckedChange={(dither) => onChange({ dither })}
+          />
+        </div>
+      </>
+    )}
+  </div>
+);
@@ -0,0 +1,174 @@
+import React from 'react';
+import type {
+  FillPattern,
+  FillPatternType,
+} from '../../constants/pixel-shape';
+import {
+  FILL_PATTERN_TYPES,
+  MAX_PATTERN_TILE_SIZE,
+} from '../../constants/pixel-shape';
+import { cn } from '../../lib/utils';
+import { findSwatchId, toSwatches } from '../../utils/palette';
+import { Label } from '../ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import { Slider } from '../ui/slider';
+import { ColorInput } from './ColorInput';
+import { PaletteStrip } from './PaletteStrip';
+
+const FILL_PATTERN_LABELS: Record<FillPatternType, string> = {
+  solid: 'Solid',
+  bayer2: 'Bayer 2×2',
+  bayer4: 'Bayer 4×4',
+  bayer8: 'Bayer 8×8',
+  checker: 'Checkerboard',
+  'horizontal-lines': 'Horizontal Lines',
+  custom: 'Custom Tile',
+};
+
+const TILE_SIZES = Array.from(
+  { length: MAX_PATTERN_TILE_SIZE - 1 },
+  (_, i) => i + 2
+);
+
+/**
+ * Resizes a tile, keeping the pixels that still fit.
+ */
+const resizeTile = (tile: string[], size: number): string[] =>
+  Array.from({ length: size }, (_, y) =>
+    Array.from({ length: size }, (_, x) => tile[y]?.[x] ?? '0').join('')
+  );
+
+interface FillPatternControlProps {
+  pattern: FillPattern;
+  onChange: (pattern: Partial<FillPattern>) => void;
+  /** Colours of the palette lock, replacing the free colour input */
+  lockedColors?: string[] | null;
+}
+
+export const FillPatternControl: React.FC<FillPatternControlProps> = ({
+  pattern,
+  onChange,
+  lockedColors = null,
+}) => {
+  const isBayer = pattern.type.startsWith('bayer');
+
+  const togglePixel = (x: number, y: number) =>
+    onChange({
+      tile: pattern.tile.map((row, rowIndex) =>
+        rowIndex === y
+          ? row.slice(0, x) + (row[x] === '1' ? '0' : '1') + row.slice(x + 1)
+          : row
+      ),
+    });
+
+  return (
+    <div className='space-y-2'>
+      <Label className='text-sm'>Pattern</Label>
+      <Select
+        value={pattern.type}
+        onValueChange={(type: FillPatternType) => onChange({ type })}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FILL_PATTERN_TYPES.map((type) => (
+            <SelectItem key={type} value={type}>
+              {FILL_PATTERN_LABELS[type]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {pattern.type !== 'solid' && lockedColors === null && (
+        <div className='space-y-1'>
+          <Label htmlFor='pattern-color' className='text-xs text-muted-foreground'>
+            Second color
+          </Label>
+          <ColorInput
+            id='pattern-color'
+            value={pattern.color}
+            onChange={(color) => onChange({ color })}
+            swatchClassName='w-10 h-10'
+          />
+        </div>
+      )}
+      {pattern.type !== 'solid' && lockedColors !== null && (
+        <div className='space-y-1'>
+          <Label className='text-xs text-muted-foreground'>
+            Second color {pattern.color.toUpperCase()}
+          </Label>
+          <PaletteStrip
+            palette={toSwatches(lockedColors)}
+            selectedId={findSwatchId(toSwatches(lockedColors), pattern.color)}
+            onSelect={(id) => onChange({ color: lockedColors[id] })}
+          />
+        </div>
+      )}
+
+      {isBayer && (
+        <>
+          <div className='flex justify-between items-center'>
+            <Label className='text-xs text-muted-foreground'>Density</Label>
+            <span className='text-xs font-mono text-muted-foreground'>
+              {Math.round(pattern.density * 100)}%
+            </span>
+          </div>
+          <Slider
+            value={[pattern.density]}
+            onValueChange={(value) => onChange({ density: value[0] })}
+            max={1}
+            min={0}
+            step={0.01}
+            className='w-full'
+          />
+        </>
+      )}
+
+      {pattern.type === 'custom' && (
+        <div className='space-y-2'>
+          <Select
+            value={String(pattern.tile.length)}
+            onValueChange={(value) =>
+              onChange({ tile: resizeTile(pattern.tile, Number(value)) })
+            }
+          >
+            <SelectTrigger aria-label='Tile size'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TILE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size}×{size} tile
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div
+            className='inline-grid gap-px bg-border p-px rounded'
+            style={{ gridTemplateColumns: `repeat(${pattern.tile[0].length}, 1.25rem)` }}
+          >
+            {pattern.tile.map((row, y) =>
+              row.split('').map((pixel, x) => (
+                <button
+                  key={`${x}-${y}`}
+                  type='button'
+                  aria-label={`Tile pixel ${x + 1}, ${y + 1}`}
+                  onClick={() => togglePixel(x, y)}
+                  className={cn('w-5 h-5', pixel === '1' ? '' : 'bg-background')}
+                  style={pixel === '1' ? { backgroundColor: pattern.color } : undefined}
+                />
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
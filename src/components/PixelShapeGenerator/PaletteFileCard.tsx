@@ -0,0 +1,154 @@
+import React, { useRef, useState } from 'react';
+import type { PaletteEntry } from '../../constants/pixel-shape';
+import {
+  PALETTE_FORMAT_LABELS,
+  PALETTE_FORMATS,
+  parsePalette,
+  serializePalette,
+  type ImportedColor,
+  type PaletteFormat,
+} from '../../utils/palette-formats';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+
+const EXPORT_NAME = 'Pixel Shape Palette';
+
+type ImportStatus =
+  | { kind: 'success'; message: string }
+  | { kind: 'error'; message: string };
+
+interface PaletteFileCardProps {
+  palette: PaletteEntry[];
+  /** Adds imported colours to the palette, returning how many were new */
+  onImport: (colors: ImportedColor[]) => number;
+}
+
+const downloadText = (text: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const PaletteFileCard: React.FC<PaletteFileCardProps> = ({
+  palette,
+  onImport,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [exportFormat, setExportFormat] = useState<PaletteFormat>('gpl');
+  const [status, setStatus] = useState<ImportStatus | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after fixing it
+    e.target.value = '';
+    if (!file) return;
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      setStatus({
+        kind: 'error',
+        message: `Could not import ${file.name}. The file could not be read.`,
+      });
+      return;
+    }
+
+    const result = parsePalette(file.name, text);
+    if (!result.ok) {
+      setStatus({
+        kind: 'error',
+        message: `Could not import ${file.name}. ${result.error}`,
+      });
+      return;
+    }
+
+    const added = onImport(result.colors);
+    const source = result.name || file.name;
+    setStatus({
+      kind: 'success',
+      message: `Added ${added} of ${result.colors.length} colors from ${source}.`,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='text-sm font-semibold tracking-wider'>
+          Palette Files
+        </CardTitle>
+      </CardHeader>
+      <CardContent className='space-y-2'>
+        <input
+          ref={fileInputRef}
+          type='file'
+          accept='.gpl,.pal,.txt,.hex'
+          className='hidden'
+          onChange={handleFileChange}
+        />
+        <Button
+          variant='outline'
+          size='sm'
+          className='w-full'
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Import Palette
+        </Button>
+        {status && (
+          <p
+            role={status.kind === 'error' ? 'alert' : 'status'}
+            className={
+              status.kind === 'error'
+                ? 'text-xs text-destructive'
+                : 'text-xs text-muted-foreground'
+            }
+          >
+            {status.message}
+          </p>
+        )}
+
+        <div className='grid grid-cols-2 gap-2'>
+          <Select
+            value={exportFormat}
+            onValueChange={(format: PaletteFormat) => setExportFormat(format)}
+          >
+            <SelectTrigger aria-label='Export format'>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PALETTE_FORMATS.map((format) => (
+                <SelectItem key={format} value={format}>
+                  {PALETTE_FORMAT_LABELS[format]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant='outline'
+            size='sm'
+            disabled={palette.length === 0}
+            onClick={() =>
+              downloadText(
+                serializePalette(exportFormat, palette, EXPORT_NAME),
+                `palette.${exportFormat}`
+              )
+            }
+          >
+            Export
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { PaletteEntry } from '../../constants/pixel-shape';
+import { cn } from '../../lib/utils';
+
+interface PaletteStripProps {
+  palette: PaletteEntry[];
+  /** Entry the colour is linked to, highlighted in the strip */
+  selectedId: number | null;
+  onSelect: (id: number) => void;
+  /** Adds the current colour to the palette; omitted to hide the button */
+  onAdd?: () => void;
+}
+
+export const PaletteStrip: React.FC<PaletteStripProps> = ({
+  palette,
+  selectedId,
+  onSelect,
+  onAdd,
+}) => (
+  <div className='flex flex-wrap gap-1'>
+    {palette.map((entry) => {
+      const label = entry.name || entry.color.toUpperCase();
+      return (
+        <button
+          key={entry.id}
+          type='button'
+          title={label}
+          aria-label={`Use palette color ${label}`}
+          aria-pressed={entry.id === selectedId}
+          onClick={() => onSelect(entry.id)}
+          className={cn(
+            'w-6 h-6 rounded border border-input',
+            entry.id === selectedId && 'ring-2 ring-ring ring-offset-1'
+          )}
+          style={{ backgroundColor: entry.color }}
+        />
+      );
+    })}
+    {onAdd && (
+      <button
+        type='button'
+        title='Add color to palette'
+        aria-label='Add color to palette'
+        onClick={onAdd}
+        className='w-6 h-6 rounded border border-dashed border-input text-xs text-muted-foreground hover:bg-accent'
+      >
+        +
+      </button>
+    )}
+  </div>
+);
@@ -1,69 +1,44 @@
-import React, { useEffect, useMemo, useRef } from "react";
+import React, { useEffect, useRef } from "react";
 
-import type { ShapeData } from "../../constants/pixel-shape";
+import type { BlendMode, ShapeData } from "../../constants/pixel-shape";
+import { getCachedRaster } from "../../utils/pixel-shape";
 import {
-  darkenColor,
-  getCachedMask,
-  isOutlinePixel,
-} from "../../utils/pixel-shape";
+  drawShapeToCanvas,
+  getShapeRenderKey,
+} from "../../utils/shape-render";
+
+// Shapes are separate elements on screen, so they blend through CSS.
+// Exports use the matching canvas operations.
+const BLEND_MODE_CSS: Record<BlendMode, React.CSSProperties["mixBlendMode"]> = {
+  normal: "normal",
+  multiply: "multiply",
+  screen: "screen",
+  overlay: "overlay",
+  add: "plus-lighter",
+  darken: "darken",
+  lighten: "lighten",
+};
 
 interface PixelShapeDisplayProps {
   shapeData: ShapeData;
   zoom: number;
-  isSelected: boolean;
+  /** Palette lock colours every painted colour snaps to */
+  lockedColors: string[] | null;
 }
 
-/**
- * Renders shape pixels to a canvas for improved performance.
- * Canvas is drawn at 1x scale and CSS transform is used for zooming,
- * eliminating re-renders on zoom changes.
- */
-const drawShapeToCanvas = (
-  ctx: CanvasRenderingContext2D,
-  shapeData: ShapeData
-) => {
-  const { type, width, height, baseColor, opacity } = shapeData;
-  const mask = getCachedMask(type, width, height);
-  const outlineColor = darkenColor(baseColor, 0.3, opacity);
-
-  // Clear canvas
-  ctx.clearRect(0, 0, width, height);
-
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      if (!mask[y][x]) continue;
-
-      const isOutline = isOutlinePixel(x, y, mask, type, width, height);
-
-      if (isOutline) {
-        ctx.fillStyle = outlineColor;
-        ctx.fillRect(x, y, 1, 1);
-      }
-      // Non-outline pixels remain transparent (already cleared)
-    }
-  }
-};
-
 export const PixelShapeDisplay = React.memo<PixelShapeDisplayProps>(
-  ({ shapeData, zoom, isSelected }) => {
+  ({ shapeData, zoom, lockedColors }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
-    const { width, height, position } = shapeData;
+    const { position } = shapeData;
+    const raster = getCachedRaster(shapeData);
 
-    // Memoize shape data to determine when to redraw
-    // This excludes position since position is handled via CSS transform
-    const shapeKey = useMemo(
-      () =>
-        `${shapeData.type}-${shapeData.width}-${shapeData.height}-${shapeData.baseColor}-${shapeData.opacity}`,
-      [
-        shapeData.type,
-        shapeData.width,
-        shapeData.height,
-        shapeData.baseColor,
-        shapeData.opacity,
-      ]
-    );
+    // Redraw only when the pixels change. Position is handled via CSS
+    // transform, so it only counts for fills anchored to the world
+    const shapeKey = getShapeRenderKey(shapeData);
 
-    // Draw to canvas only when shape properties change (not on zoom)
+    // Draw to canvas only when shape properties change (not on zoom).
+    // The canvas is drawn at 1x scale and CSS transform is used for zooming,
+    // eliminating re-renders on zoom changes.
     useEffect(() => {
       const canvas = canvasRef.current;
       if (!canvas) return;
@@ -71,24 +46,28 @@ export const PixelShapeDisplay = React.memo<PixelShapeDisplayProps>(
       const ctx = canvas.getContext("2d");
       if (!ctx) return;
 
-      drawShapeToCanvas(ctx, shapeData);
-    }, [shapeKey, shapeData]);
+      drawShapeToCanvas(ctx, shapeData, lockedColors);
+      // shapeData is left out: when only its position changes, the pixels
+      // are the same
+    }, [shapeKey, lockedColors]);
 
     return (
       <div
-        className={`absolute ${isSelected ? "ring-2 ring-indigo-500 z-10" : ""} pointer-events-none`}
+        className="absolute pointer-events-none"
         style={{
           // Position is handled via transform for better performance
-          transform: `translate(${position.x * zoom}px, ${position.y * zoom}px) scale(${zoom})`,
+          // The raster may start before the shape position (rotation, outer outlines)
+          transform: `translate(${(position.x + raster.offsetX) * zoom}px, ${(position.y + raster.offsetY) * zoom}px) scale(${zoom})`,
           transformOrigin: "top left",
+          mixBlendMode: BLEND_MODE_CSS[shapeData.blendMode],
           // Use image-rendering for crisp pixel art
           imageRendering: "pixelated",
         }}
       >
         <canvas
           ref={canvasRef}
-          width={width}
-          height={height}
+          width={raster.width}
+          height={raster.height}
           style={{
             display: "block",
             imageRendering: "pixelated",
@@ -3,10 +3,12 @@ import { useShallow } from 'zustand/shallow';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useCanvasInteraction } from '../../hooks/useCanvasInteraction';
 import {
+  selectCanPaintSelectedShape,
   selectIsEditing,
   selectSelectedShape,
   useWorkspaceStore,
 } from '../../stores/workspace-store';
+import { getLockedColors } from '../../utils/palette';
 import { DarkModeToggle } from '../ui/DarkModeToggle';
 import { FloatingCard } from '../ui/FloatingCard';
 import { CanvasArea } from './CanvasArea';
@@ -32,38 +34,87 @@ export default function PixelShapeGenerator() {
   );
 
   const selectedShapeId = useWorkspaceStore((s) => s.selectedShapeId);
+  const combineShapeIds = useWorkspaceStore((s) => s.combineShapeIds);
+  const bitmapTool = useWorkspaceStore((s) => s.bitmapTool);
+  const rampOptions = useWorkspaceStore((s) => s.rampOptions);
+  const palette = useWorkspaceStore((s) => s.palette);
+  const paletteLock = useWorkspaceStore((s) => s.paletteLock);
+  const lockedColors = useMemo(
+    () => getLockedColors(paletteLock, palette),
+    [paletteLock, palette]
+  );
   const selectedShapeObject = useWorkspaceStore(selectSelectedShape);
   const isEditing = useWorkspaceStore(selectIsEditing);
+  const canPaintSelectedShape = useWorkspaceStore(selectCanPaintSelectedShape);
 
   const currentShapeType = useWorkspaceStore((s) => s.currentShapeType);
   const formWidth = useWorkspaceStore((s) => s.formWidth);
   const formHeight = useWorkspaceStore((s) => s.formHeight);
   const formBaseColor = useWorkspaceStore((s) => s.formBaseColor);
+  const formBaseColorRef = useWorkspaceStore((s) => s.formBaseColorRef);
+  const formOutlineColor = useWorkspaceStore((s) => s.formOutlineColor);
+  const formOutlineColorRef = useWorkspaceStore((s) => s.formOutlineColorRef);
+  const formOutlineStyle = useWorkspaceStore((s) => s.formOutlineStyle);
+  const formOrientation = useWorkspaceStore((s) => s.formOrientation);
+  const formFillMode = useWorkspaceStore((s) => s.formFillMode);
+  const formFillPattern = useWorkspaceStore((s) => s.formFillPattern);
+  const formFillGradient = useWorkspaceStore((s) => s.formFillGradient);
+  const formShading = useWorkspaceStore((s) => s.formShading);
   const formOpacity = useWorkspaceStore((s) => s.formOpacity);
+  const formBlendMode = useWorkspaceStore((s) => s.formBlendMode);
+  const formParams = useWorkspaceStore((s) => s.formParams);
 
   const isControlsPanelOpen = useWorkspaceStore((s) => s.isControlsPanelOpen);
   const isShapeListOpen = useWorkspaceStore((s) => s.isShapeListOpen);
+  const rendererMode = useWorkspaceStore((s) => s.rendererMode);
 
   // Actions from store
   const setSelectedShapeId = useWorkspaceStore((s) => s.setSelectedShapeId);
   const moveShape = useWorkspaceStore((s) => s.moveShape);
+  const moveShapeHandle = useWorkspaceStore((s) => s.moveShapeHandle);
   const addShape = useWorkspaceStore((s) => s.addShape);
   const updateSelectedShape = useWorkspaceStore((s) => s.updateSelectedShape);
   const removeShape = useWorkspaceStore((s) => s.removeShape);
   const moveShapeLayer = useWorkspaceStore((s) => s.moveShapeLayer);
   const reorderShapes = useWorkspaceStore((s) => s.reorderShapes);
+  const toggleCombineShape = useWorkspaceStore((s) => s.toggleCombineShape);
+  const combineShapes = useWorkspaceStore((s) => s.combineShapes);
+  const separateShape = useWorkspaceStore((s) => s.separateShape);
+  const convertToBitmap = useWorkspaceStore((s) => s.convertToBitmap);
+  const paintShapePixels = useWorkspaceStore((s) => s.paintShapePixels);
+  const setBitmapTool = useWorkspaceStore((s) => s.setBitmapTool);
+  const setRampOptions = useWorkspaceStore((s) => s.setRampOptions);
+  const addPaletteColor = useWorkspaceStore((s) => s.addPaletteColor);
+  const addPaletteColors = useWorkspaceStore((s) => s.addPaletteColors);
+  const updatePaletteColor = useWorkspaceStore((s) => s.updatePaletteColor);
+  const removePaletteColor = useWorkspaceStore((s) => s.removePaletteColor);
+  const setPaletteLock = useWorkspaceStore((s) => s.setPaletteLock);
 
   const setCurrentShapeType = useWorkspaceStore((s) => s.setCurrentShapeType);
   const setFormWidth = useWorkspaceStore((s) => s.setFormWidth);
   const setFormHeight = useWorkspaceStore((s) => s.setFormHeight);
   const setFormBaseColor = useWorkspaceStore((s) => s.setFormBaseColor);
+  const setFormOutlineColor = useWorkspaceStore((s) => s.setFormOutlineColor);
+  const setFormBaseColorRef = useWorkspaceStore((s) => s.setFormBaseColorRef);
+  const setFormOutlineColorRef = useWorkspaceStore(
+    (s) => s.setFormOutlineColorRef
+  );
+  const setFormOutlineStyle = useWorkspaceStore((s) => s.setFormOutlineStyle);
+  const setFormOrientation = useWorkspaceStore((s) => s.setFormOrientation);
+  const setFormFillMode = useWorkspaceStore((s) => s.setFormFillMode);
+  const setFormFillPattern = useWorkspaceStore((s) => s.setFormFillPattern);
+  const setFormFillGradient = useWorkspaceStore((s) => s.setFormFillGradient);
+  const setFormShading = useWorkspaceStore((s) => s.setFormShading);
   const setFormOpacity = useWorkspaceStore((s) => s.setFormOpacity);
+  const setFormBlendMode = useWorkspaceStore((s) => s.setFormBlendMode);
+  const setFormParam = useWorkspaceStore((s) => s.setFormParam);
 
   const updateView = useWorkspaceStore((s) => s.updateView);
   const storeResetView = useWorkspaceStore((s) => s.resetView);
 
   const toggleControlsPanel = useWorkspaceStore((s) => s.toggleControlsPanel);
   const toggleShapeList = useWorkspaceStore((s) => s.toggleShapeList);
+  const setRendererMode = useWorkspaceStore((s) => s.setRendererMode);
 
   // Canvas interaction hook - uses initial values, notifies store on changes
   const canvasInteraction = useCanvasInteraction({
@@ -71,6 +122,9 @@ export default function PixelShapeGenerator() {
     selectedShapeId,
     onShapeSelect: setSelectedShapeId,
     onShapeMove: moveShape,
+    onShapeHandleMove: moveShapeHandle,
+    bitmapTool,
+    onShapePaint: paintShapePixels,
     initialZoom: initialView.zoom,
     initialCanvasOffset: initialView.canvasOffset,
     onViewChange: updateView,
@@ -113,11 +167,28 @@ export default function PixelShapeGenerator() {
     [setFormHeight]
   );
 
+  // Editing a linked colour edits the palette entry, recoloring every
+  // shape linked to it
   const handleColorChange = useCallback(
-    (e: React.ChangeEvent<HTMLInputElement>) => {
-      setFormBaseColor(e.target.value);
+    (color: string) => {
+      if (formBaseColorRef !== null) {
+        updatePaletteColor(formBaseColorRef, color);
+      } else {
+        setFormBaseColor(color);
+      }
     },
-    [setFormBaseColor]
+    [formBaseColorRef, updatePaletteColor, setFormBaseColor]
+  );
+
+  const handleOutlineColorChange = useCallback(
+    (color: string | null) => {
+      if (color !== null && formOutlineColorRef !== null) {
+        updatePaletteColor(formOutlineColorRef, color);
+      } else {
+        setFormOutlineColor(color);
+      }
+    },
+    [formOutlineColorRef, updatePaletteColor, setFormOutlineColor]
   );
 
   const handleOpacityChange = useCallback(
@@ -146,6 +217,10 @@ export default function PixelShapeGenerator() {
     return { x: initialX, y: initialY };
   }, [canvasInteraction, formWidth, formHeight]);
 
+  const handleConvertToBitmap = useCallback(() => {
+    if (selectedShapeId) convertToBitmap(selectedShapeId);
+  }, [selectedShapeId, convertToBitmap]);
+
   // Form submit handler
   const handleFormSubmit = useCallback(() => {
     if (isEditing) {
@@ -185,14 +260,51 @@ export default function PixelShapeGenerator() {
           width={formWidth}
           height={formHeight}
           currentShapeBaseColor={formBaseColor}
+          currentShapeOutlineColor={formOutlineColor}
+          currentShapeOutlineStyle={formOutlineStyle}
+          currentShapeOrientation={formOrientation}
+          currentShapeFillMode={formFillMode}
+          currentShapeFillPattern={formFillPattern}
+          currentShapeFillGradient={formFillGradient}
+          currentShapeShading={formShading}
           currentShapeOpacity={formOpacity}
+          currentShapeBlendMode={formBlendMode}
+          currentShapeParams={formParams}
           isEditing={isEditing}
           selectedShapeObject={selectedShapeObject}
           onShapeTypeChange={setCurrentShapeType}
           onWidthChange={handleWidthChange}
           onHeightChange={handleHeightChange}
           onColorChange={handleColorChange}
+          onOutlineColorChange={handleOutlineColorChange}
+          onOutlineStyleChange={setFormOutlineStyle}
+          onOrientationChange={setFormOrientation}
+          onFillModeChange={setFormFillMode}
+          onFillPatternChange={setFormFillPattern}
+          onFillGradientChange={setFormFillGradient}
+          onShadingChange={setFormShading}
+          rampOptions={rampOptions}
+          onRampOptionsChange={setRampOptions}
+          onBaseColorPick={setFormBaseColor}
+          onOutlineColorPick={setFormOutlineColor}
+          palette={palette}
+          currentShapeBaseColorRef={formBaseColorRef}
+          currentShapeOutlineColorRef={formOutlineColorRef}
+          onBaseColorRefChange={setFormBaseColorRef}
+          onOutlineColorRefChange={setFormOutlineColorRef}
+          onPaletteAdd={addPaletteColor}
+          onPaletteRemove={removePaletteColor}
+          onPaletteImport={addPaletteColors}
+          paletteLock={paletteLock}
+          lockedColors={lockedColors}
+          onPaletteLockChange={setPaletteLock}
           onOpacityChange={handleOpacityChange}
+          onBlendModeChange={setFormBlendMode}
+          onParamChange={setFormParam}
+          bitmapTool={bitmapTool}
+          canPaintPixels={canPaintSelectedShape}
+          onBitmapToolChange={setBitmapTool}
+          onConvertToBitmap={handleConvertToBitmap}
           onFormSubmit={handleFormSubmit}
         />
       </FloatingCard>
@@ -211,6 +323,11 @@ export default function PixelShapeGenerator() {
           onRemoveShape={removeShape}
           onMoveShapeLayer={moveShapeLayer}
           onReorderShapes={reorderShapes}
+          combineShapeIds={combineShapeIds}
+          onToggleCombineShape={toggleCombineShape}
+          onCombineShapes={combineShapes}
+          onSeparateShape={separateShape}
+          lockedColors={lockedColors}
         />
       </FloatingCard>
 
@@ -220,7 +337,11 @@ export default function PixelShapeGenerator() {
         zoom={canvasInteraction.zoom}
         canvasOffset={canvasInteraction.canvasOffset}
         shapes={shapes}
+        spatialIndex={canvasInteraction.spatialIndex}
         selectedShapeId={selectedShapeId}
+        lockedColors={lockedColors}
+        rendererMode={rendererMode}
+        onRendererModeChange={setRendererMode}
         snappingGuides={canvasInteraction.snappingGuides}
         isDraggingShape={canvasInteraction.isDraggingShape}
         isPanning={canvasInteraction.isPanning}
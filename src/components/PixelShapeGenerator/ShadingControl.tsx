@@ -0,0 +1,94 @@
+import React from 'react';
+import type { Shading, ShadingType } from '../../constants/pixel-shape';
+import {
+  MAX_SHADING_BANDS,
+  MIN_SHADING_BANDS,
+  SHADING_TYPES,
+} from '../../constants/pixel-shape';
+import { getShadingRamp } from '../../utils/shading';
+import { Label } from '../ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import { Slider } from '../ui/slider';
+
+const SHADING_TYPE_LABELS: Record<ShadingType, string> = {
+  none: 'None',
+  sphere: 'Orb',
+  cylinder: 'Cylinder',
+};
+
+interface ShadingControlProps {
+  shading: Shading;
+  baseColor: string;
+  onChange: (shading: Partial<Shading>) => void;
+}
+
+export const ShadingControl: React.FC<ShadingControlProps> = ({
+  shading,
+  baseColor,
+  onChange,
+}) => (
+  <div className='space-y-2'>
+    <Label className='text-sm'>Shading</Label>
+    <Select
+      value={shading.type}
+      onValueChange={(type: ShadingType) => onChange({ type })}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SHADING_TYPES.map((type) => (
+          <SelectItem key={type} value={type}>
+            {SHADING_TYPE_LABELS[type]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+
+    {shading.type !== 'none' && (
+      <>
+        <div className='flex h-4 rounded overflow-hidden border border-input'>
+          {getShadingRamp(baseColor, shading.bands).map((color, index) => (
+            <div key={index} className='flex-1' style={{ backgroundColor: color }} />
+          ))}
+        </div>
+
+        <div className='flex justify-between items-center'>
+          <Label className='text-xs text-muted-foreground'>Light Angle</Label>
+          <span className='text-xs font-mono text-muted-foreground'>
+            {shading.lightAngle}°
+          </span>
+        </div>
+        <Slider
+          value={[shading.lightAngle]}
+          onValueChange={(value) => onChange({ lightAngle: value[0] })}
+          max={359}
+          min={0}
+          step={1}
+          className='w-full'
+        />
+
+        <div className='flex justify-between items-center'>
+          <Label className='text-xs text-muted-foreground'>Bands</Label>
+          <span className='text-xs font-mono text-muted-foreground'>
+            {shading.bands}
+          </span>
+        </div>
+        <Slider
+          value={[shading.bands]}
+          onValueChange={(value) => onChange({ bands: value[0] })}
+          max={MAX_SHADING_BANDS}
+          min={MIN_SHADING_BANDS}
+          step={1}
+          className='w-full'
+        />
+      </>
+    )}
+  </div>
+);
@@ -17,7 +17,13 @@ import {
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
 import React from 'react';
-import type { ShapeData } from '../../constants/pixel-shape';
+import type {
+  BooleanOperation,
+  ShapeData,
+} from '../../constants/pixel-shape';
+import { BOOLEAN_OPERATIONS } from '../../constants/pixel-shape';
+import { BOOLEAN_OPERATION_LABELS } from '../../shapes';
+import { Button } from '../ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { SortableShapeCard } from './SortableShapeCard.tsx';
 
@@ -28,6 +34,11 @@ interface ShapeListProps {
   onRemoveShape: (id: number) => void;
   onMoveShapeLayer: (id: number, direction: string) => void;
   onReorderShapes?: (fromIndex: number, toIndex: number) => void;
+  combineShapeIds: number[];
+  onToggleCombineShape: (id: number) => void;
+  onCombineShapes: (operation: BooleanOperation) => void;
+  onSeparateShape: (id: number) => void;
+  lockedColors: string[] | null;
 }
 
 export const ShapeList = React.memo<ShapeListProps>(
@@ -38,6 +49,11 @@ export const ShapeList = React.memo<ShapeListProps>(
     onRemoveShape,
     onMoveShapeLayer,
     onReorderShapes,
+    combineShapeIds,
+    onToggleCombineShape,
+    onCombineShapes,
+    onSeparateShape,
+    lockedColors,
   }) => {
     const sensors = useSensors(
       useSensor(PointerSensor, {
@@ -105,6 +121,28 @@ export const ShapeList = React.memo<ShapeListProps>(
               Shape List ({shapes.length})
             </CardTitle>
           </CardHeader>
+          {combineShapeIds.length > 0 && (
+            <CardContent className='space-y-2'>
+              <p className='text-xs text-muted-foreground'>
+                {combineShapeIds.length < 2
+                  ? 'Tick another shape to combine'
+                  : `Combine ${combineShapeIds.length} shapes (bottom shape is the base)`}
+              </p>
+              <div className='grid grid-cols-2 gap-2'>
+                {BOOLEAN_OPERATIONS.map((operation) => (
+                  <Button
+                    key={operation}
+                    variant='outline'
+                    size='sm'
+                    disabled={combineShapeIds.length < 2}
+                    onClick={() => onCombineShapes(operation)}
+                  >
+                    {BOOLEAN_OPERATION_LABELS[operation]}
+                  </Button>
+                ))}
+              </div>
+            </CardContent>
+          )}
         </Card>
 
         <DndContext
@@ -124,9 +162,13 @@ export const ShapeList = React.memo<ShapeListProps>(
                   shape={shape}
                   index={index}
                   totalShapes={shapes.length}
-                  isSelected={selectedShapeId === shape.id}
+                  selectedShapeId={selectedShapeId}
+                  isCombineChecked={combineShapeIds.includes(shape.id)}
                   onShapeSelect={onShapeSelect}
                   onRemoveShape={onRemoveShape}
+                  onToggleCombine={onToggleCombineShape}
+                  onSeparate={onSeparateShape}
+                  lockedColors={lockedColors}
                 />
               ))}
             </SortableContext>
@@ -0,0 +1,159 @@
+import React from 'react';
+import type { Point } from '../../constants/pixel-shape';
+import type { ShapeParamField, ShapeParamValue } from '../../shapes';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import { Slider } from '../ui/slider';
+import { Switch } from '../ui/switch';
+
+interface ShapeParamControlProps {
+  field: ShapeParamField<Record<string, ShapeParamValue>>;
+  value: ShapeParamValue;
+  onChange: (key: string, value: ShapeParamValue) => void;
+}
+
+const parseCoordinate = (raw: string): number => {
+  const value = parseInt(raw, 10);
+  return Number.isNaN(value) ? 0 : Math.max(0, value);
+};
+
+/**
+ * Renders the editor for a single shape parameter, based on its field kind.
+ */
+export const ShapeParamControl: React.FC<ShapeParamControlProps> = ({
+  field,
+  value,
+  onChange,
+}) => {
+  switch (field.kind) {
+    case 'number':
+      return (
+        <div className='space-y-2'>
+          <div className='flex justify-between items-center'>
+            <Label className='text-sm'>{field.label}</Label>
+            <span className='text-xs font-mono text-muted-foreground'>
+              {field.format ? field.format(Number(value)) : String(value)}
+            </span>
+          </div>
+          <Slider
+            value={[Number(value)]}
+            onValueChange={(next) => onChange(field.key, next[0])}
+            max={field.max}
+            min={field.min}
+            step={field.step}
+            className='w-full'
+          />
+        </div>
+      );
+
+    case 'select':
+      return (
+        <div className='space-y-2'>
+          <Label className='text-sm'>{field.label}</Label>
+          <Select
+            value={String(value)}
+            onValueChange={(next) => onChange(field.key, next)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      );
+
+    case 'toggle':
+      return (
+        <div className='flex justify-between items-center'>
+          <Label htmlFor={field.key} className='text-sm'>
+            {field.label}
+          </Label>
+          <Switch
+            id={field.key}
+            checked={Boolean(value)}
+            onCheckedChange={(checked) => onChange(field.key, checked)}
+          />
+        </div>
+      );
+
+    case 'points': {
+      const points = value as Point[];
+      const updatePoint = (index: number, point: Point) =>
+        onChange(
+          field.key,
+          points.map((p, i) => (i === index ? point : p))
+        );
+
+      return (
+        <div className='space-y-2'>
+          <Label className='text-sm'>{field.label}</Label>
+          {points.map((point, index) => (
+            <div key={index} className='flex items-center space-x-2'>
+              <span className='w-5 text-xs font-mono text-muted-foreground'>
+                {index + 1}
+              </span>
+              <Input
+                aria-label={`Vertex ${index + 1} X`}
+                type='text'
+                inputMode='numeric'
+                value={point.x}
+                onChange={(e) =>
+                  updatePoint(index, { ...point, x: parseCoordinate(e.target.value) })
+                }
+              />
+              <Input
+                aria-label={`Vertex ${index + 1} Y`}
+                type='text'
+                inputMode='numeric'
+                value={point.y}
+                onChange={(e) =>
+                  updatePoint(index, { ...point, y: parseCoordinate(e.target.value) })
+                }
+              />
+              <Button
+                variant='ghost'
+                size='sm'
+                title='Remove vertex'
+                disabled={points.length <= field.minPoints}
+                onClick={() =>
+                  onChange(
+                    field.key,
+                    points.filter((_, i) => i !== index)
+                  )
+                }
+              >
+                ×
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant='outline'
+            size='sm'
+            className='w-full'
+            disabled={points.length >= field.maxPoints}
+            onClick={() => {
+              const last = points[points.length - 1];
+              onChange(field.key, [...points, { x: last.x + 4, y: last.y }]);
+            }}
+          >
+            Add vertex
+          </Button>
+        </div>
+      );
+    }
+  }
+};
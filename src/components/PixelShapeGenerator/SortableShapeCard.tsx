@@ -3,7 +3,8 @@ import { CSS } from '@dnd-kit/utilities';
 import React from 'react';
 import type { ShapeData } from '../../constants/pixel-shape';
 import { cn } from '../../lib/utils';
-import { darkenColor } from '../../utils/pixel-shape';
+import { BOOLEAN_OPERATION_LABELS, getShapeDefinition } from '../../shapes';
+import { getShapePaint } from '../../utils/shape-render';
 import { Button } from '../ui/button';
 import { Card, CardContent } from '../ui/card';
 
@@ -11,18 +12,27 @@ interface SortableShapeCardProps {
   shape: ShapeData;
   index: number;
   totalShapes: number;
-  isSelected: boolean;
+  /** May be a composite's child, which is then highlighted in the card */
+  selectedShapeId: number | null;
+  isCombineChecked: boolean;
   onShapeSelect: (id: number) => void;
   onRemoveShape: (id: number) => void;
+  onToggleCombine: (id: number) => void;
+  onSeparate: (id: number) => void;
+  lockedColors: string[] | null;
 }
 
 export const SortableShapeCard: React.FC<SortableShapeCardProps> = ({
   shape,
   index,
   totalShapes,
-  isSelected,
+  selectedShapeId,
+  isCombineChecked,
   onShapeSelect,
   onRemoveShape,
+  onToggleCombine,
+  onSeparate,
+  lockedColors,
 }) => {
   const {
     attributes,
@@ -38,6 +48,9 @@ export const SortableShapeCard: React.FC<SortableShapeCardProps> = ({
     transition,
   };
 
+  const paint = getShapePaint(shape, lockedColors);
+  const isSelected = selectedShapeId === shape.id;
+
   return (
     <Card
       ref={setNodeRef}
@@ -54,6 +67,16 @@ export const SortableShapeCard: React.FC<SortableShapeCardProps> = ({
         <div className='mb-3'>
           <div className='flex items-center justify-between mb-2'>
             <div className='flex items-center space-x-2'>
+              {/* Combine Checkbox */}
+              <input
+                type='checkbox'
+                checked={isCombineChecked}
+                onChange={() => onToggleCombine(shape.id)}
+                title='Select for combining'
+                aria-label='Select for combining'
+                className='w-4 h-4 cursor-pointer accent-primary'
+              />
+
               {/* Drag Handle */}
               <div
                 {...listeners}
@@ -88,8 +111,8 @@ export const SortableShapeCard: React.FC<SortableShapeCardProps> = ({
                 className='cursor-pointer'
                 onClick={() => onShapeSelect(shape.id)}
               >
-                <span className='text-xs capitalize px-2 py-1 rounded-full bg-muted text-muted-foreground'>
-                  {shape.type}
+                <span className='text-xs px-2 py-1 rounded-full bg-muted text-muted-foreground'>
+                  {getShapeDefinition(shape.type).label}
                 </span>
               </div>
             </div>
@@ -99,26 +122,27 @@ export const SortableShapeCard: React.FC<SortableShapeCardProps> = ({
               className='flex items-center space-x-1 cursor-pointer'
               onClick={() => onShapeSelect(shape.id)}
             >
-              <div
-                title={`Base: ${shape.baseColor}`}
-                className='w-5 h-5 rounded-lg border-2 border-background shadow-sm'
-                style={{ backgroundColor: shape.baseColor }}
-              />
-              <div
-                title={`Outline: ${darkenColor(
-                  shape.baseColor,
-                  0.3,
-                  shape.opacity
-                )}`}
-                className='w-5 h-5 rounded-lg border-2 border-background shadow-sm'
-                style={{
-                  backgroundColor: darkenColor(
-                    shape.baseColor,
-                    0.3,
-                    shape.opacity
-                  ),
-                }}
-              />
+              {paint.fill && (
+                <div
+                  title={`Fill: ${paint.fill}`}
+                  className='w-5 h-5 rounded-lg border-2 border-background shadow-sm'
+                  style={{ backgroundColor: paint.fill }}
+                />
+              )}
+              {paint.fill && shape.fillPattern.type !== 'solid' && (
+                <div
+                  title={`Pattern: ${shape.fillPattern.color}`}
+                  className='w-5 h-5 rounded-lg border-2 border-background shadow-sm'
+                  style={{ backgroundColor: shape.fillPattern.color }}
+                />
+              )}
+              {paint.outline && paint.outline !== paint.fill && (
+                <div
+                  title={`Outline: ${paint.outline}`}
+                  className='w-5 h-5 rounded-lg border-2 border-background shadow-sm'
+                  style={{ backgroundColor: paint.outline }}
+                />
+              )}
             </div>
           </div>
 
@@ -134,8 +158,48 @@ export const SortableShapeCard: React.FC<SortableShapeCardProps> = ({
           </div>
         </div>
 
+        {/* Composite Children - each stays editable on its own */}
+        {shape.type === 'composite' && (
+          <div className='mb-3 space-y-1 border-l-2 border-muted pl-3'>
+            {shape.params.children.map((child, childIndex) => (
+              <div
+                key={child.id}
+                onClick={() => onShapeSelect(child.id)}
+                className={cn(
+                  'flex items-center justify-between rounded px-2 py-1 text-xs cursor-pointer hover:bg-muted',
+                  selectedShapeId === child.id && 'bg-primary/10 ring-1 ring-primary/30'
+                )}
+              >
+                <span className='text-foreground'>
+                  {childIndex === 0
+                    ? 'Base'
+                    : BOOLEAN_OPERATION_LABELS[shape.params.operation]}
+                  :{' '}
+                  {getShapeDefinition(child.type).label}
+                </span>
+                <span className='text-muted-foreground'>
+                  {child.width}×{child.height}px
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Controls */}
-        <div className='flex items-center justify-end'>
+        <div className='flex items-center justify-end space-x-2'>
+          {shape.type === 'composite' && (
+            <Button
+              onClick={(e) => {
+                e.stopPropagation();
+                onSeparate(shape.id);
+              }}
+              variant='outline'
+              size='sm'
+              title='Separate into the original shapes'
+            >
+              Separate
+            </Button>
+          )}
           <Button
             onClick={(e) => {
               e.stopPropagation();
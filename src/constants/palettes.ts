@@ -0,0 +1,50 @@
+// Fixed palettes of retro targets, for locking a document to hardware
+// colours. Colours are listed in each platform's conventional order.
+
+export const BUILT_IN_PALETTE_IDS = ["pico-8", "game-boy", "nes", "cga"] as const;
+
+export type BuiltInPaletteId = typeof BUILT_IN_PALETTE_IDS[number];
+
+export interface BuiltInPalette {
+  label: string;
+  colors: string[];
+}
+
+export const BUILT_IN_PALETTES: Record<BuiltInPaletteId, BuiltInPalette> = {
+  "pico-8": {
+    label: "PICO-8",
+    colors: [
+      "#000000", "#1d2b53", "#7e2553", "#008751", "#ab5236", "#5f574f", "#c2c3c7", "#fff1e8",
+      "#ff004d", "#ffa300", "#ffec27", "#00e436", "#29adff", "#83769c", "#ff77a8", "#ffccaa",
+    ],
+  },
+  "game-boy": {
+    label: "Game Boy",
+    colors: ["#0f380f", "#306230", "#8bac0f", "#9bbc0f"],
+  },
+  nes: {
+    label: "NES",
+    colors: [
+      "#7c7c7c", "#0000fc", "#0000bc", "#4428bc", "#940084", "#a80020", "#a81000", "#881400",
+      "#503000", "#007800", "#006800", "#005800", "#004058", "#000000", "#bcbcbc", "#0078f8",
+      "#0058f8", "#6844fc", "#d800cc", "#e40058", "#f83800", "#e45c10", "#ac7c00", "#00b800",
+      "#00a800", "#00a844", "#008888", "#f8f8f8", "#3cbcfc", "#6888fc", "#9878f8", "#f878f8",
+      "#f85898", "#f87858", "#fca044", "#f8b800", "#b8f818", "#58d854", "#58f898", "#00e8d8",
+      "#787878", "#fcfcfc", "#a4e4fc", "#b8b8f8", "#d8b8f8", "#f8b8f8", "#f8a4c0", "#f0d0b0",
+      "#fce0a8", "#f8d878", "#d8f878", "#b8f8b8", "#b8f8d8", "#00fcfc", "#f8d8f8",
+    ],
+  },
+  cga: {
+    label: "CGA",
+    colors: [
+      "#000000", "#0000aa", "#00aa00", "#00aaaa", "#aa0000", "#aa00aa", "#aa5500", "#aaaaaa",
+      "#555555", "#5555ff", "#55ff55", "#55ffff", "#ff5555", "#ff55ff", "#ffff55", "#ffffff",
+    ],
+  },
+};
+
+/** What a document's colours are locked to: its own palette or a built-in one */
+export type PaletteLock = "document" | BuiltInPaletteId;
+
+export const isPaletteLock = (value: unknown): value is PaletteLock =>
+  value === "document" || BUILT_IN_PALETTE_IDS.includes(value as BuiltInPaletteId);
@@ -1,25 +1,338 @@
 // Constants for Pixel Shape Generator
 export const SNAP_THRESHOLD_SCREEN = 4;
 export const MIN_ZOOM_FOR_PIXEL_GRID = 4;
-export const SHAPE_TYPES = ["ellipse", "crescent", "box"] as const;
 export const ZOOM_FACTOR = 1.1;
 export const MIN_ZOOM = 0.5;
 export const MAX_ZOOM = 100;
 export const DOUBLE_CLICK_DELAY = 300;
 export const DRAG_THRESHOLD = 5; // pixels
+export const HANDLE_HIT_RADIUS_SCREEN = 8; // pixels
 
-export type ShapeType = typeof SHAPE_TYPES[number];
+export const FILL_MODES = ["outline", "fill", "fill-outline"] as const;
 
-export interface ShapeData {
+// Which mask pixels are painted: the outline, the whole mask, or both in separate colours
+export type FillMode = typeof FILL_MODES[number];
+
+export const RENDERER_MODES = ["dom", "canvas"] as const;
+
+// How the canvas area draws shapes: one element per shape, or every
+// visible shape composited into a single viewport canvas
+export type RendererMode = typeof RENDERER_MODES[number];
+
+export const BLEND_MODES = ["normal", "multiply", "screen", "overlay", "add", "darken", "lighten"] as const;
+
+// How a shape's pixels combine with the shapes below it
+export type BlendMode = typeof BLEND_MODES[number];
+
+export const OUTLINE_PLACEMENTS = ["inside", "outside", "center"] as const;
+
+// Where outline pixels go relative to the mask edge: eroded into it,
+// dilated out of it, or split across it
+export type OutlinePlacement = typeof OUTLINE_PLACEMENTS[number];
+
+export const MAX_OUTLINE_THICKNESS = 8;
+
+export const OUTLINE_CONNECTIVITIES = [4, 8] as const;
+
+// How outline pixels connect: 4 joins them edge to edge (steps have
+// corner pixels), 8 lets them touch diagonally (thinner staircases)
+export type OutlineConnectivity = typeof OUTLINE_CONNECTIVITIES[number];
+
+export interface OutlineStyle {
+  /** Thickness in pixels */
+  thickness: number;
+  placement: OutlinePlacement;
+  connectivity: OutlineConnectivity;
+  /** Remove L-shaped corner doubles so diagonals become single-pixel steps */
+  pixelPerfect: boolean;
+}
+
+export const DEFAULT_OUTLINE_STYLE: OutlineStyle = {
+  thickness: 1,
+  placement: "inside",
+  connectivity: 4,
+  pixelPerfect: false,
+};
+
+export const FILL_PATTERN_TYPES = [
+  "solid",
+  "bayer2",
+  "bayer4",
+  "bayer8",
+  "checker",
+  "horizontal-lines",
+  "custom",
+] as const;
+
+// How fill pixels mix the base colour with the pattern colour
+export type FillPatternType = typeof FILL_PATTERN_TYPES[number];
+
+export const MAX_PATTERN_TILE_SIZE = 8;
+
+export interface FillPattern {
+  type: FillPatternType;
+  /** Second colour, painted where the pattern is set */
+  color: string;
+  /** Share of pixels in the second colour for Bayer patterns, 0-1 */
+  density: number;
+  /** Rows of the custom tile; "1" paints the second colour */
+  tile: string[];
+}
+
+export const DEFAULT_FILL_PATTERN: FillPattern = {
+  type: "solid",
+  color: "#000000",
+  density: 0.5,
+  tile: ["1000", "0000", "0010", "0000"],
+};
+
+export const GRADIENT_TYPES = ["none", "linear", "radial"] as const;
+
+export type GradientType = typeof GRADIENT_TYPES[number];
+
+export const MAX_GRADIENT_STEPS = 16;
+
+export interface FillGradient {
+  type: GradientType;
+  /** Colour the gradient ends at; it starts at the base colour */
+  color: string;
+  /** Number of flat colour bands, 2 or more */
+  steps: number;
+  /** Direction of a linear gradient in degrees, clockwise from left to right */
+  angle: number;
+  /** Centre of a radial gradient, as fractions of the shape bounds */
+  centerX: number;
+  centerY: number;
+  /** Ordered-dither the boundaries between bands */
+  dither: boolean;
+}
+
+export const DEFAULT_FILL_GRADIENT: FillGradient = {
+  type: "none",
+  color: "#000000",
+  steps: 4,
+  angle: 90,
+  centerX: 0.35,
+  centerY: 0.35,
+  dither: false,
+};
+
+export const RAMP_COLOR_SPACES = ["hsl", "oklch"] as const;
+
+export type RampColorSpace = typeof RAMP_COLOR_SPACES[number];
+
+export const MIN_RAMP_STEPS = 2;
+export const MAX_RAMP_STEPS = 12;
+
+export interface ColorRampOptions {
+  /** Space the ramp is interpolated in; OKLCH keeps steps perceptually even */
+  space: RampColorSpace;
+  steps: number;
+  /** Degrees the extreme steps turn, highlights towards warm and shadows towards cool */
+  hueShift: number;
+  /** How much saturation drops towards the ends, -1 to 1; negative raises it */
+  saturationCurve: number;
+  /** Exponent spacing the lightness of the steps; above 1 keeps them near the base */
+  valueCurve: number;
+}
+
+export const DEFAULT_COLOR_RAMP: ColorRampOptions = {
+  space: "oklch",
+  steps: 5,
+  hueShift: 20,
+  saturationCurve: 0.3,
+  valueCurve: 1,
+};
+
+export const SHADING_TYPES = ["none", "sphere", "cylinder"] as const;
+
+export type ShadingType = typeof SHADING_TYPES[number];
+
+export const MIN_SHADING_BANDS = 3;
+export const MAX_SHADING_BANDS = 7;
+
+export interface Shading {
+  /** Form the interior is lit as, spanning the shape bounds */
+  type: ShadingType;
+  /** Direction the light comes from in degrees, clockwise from the right */
+  lightAngle: number;
+  /** Number of bands from shadow to highlight, the middle one being the base colour */
+  bands: number;
+}
+
+export const DEFAULT_SHADING: Shading = {
+  type: "none",
+  lightAngle: 225,
+  bands: 3,
+};
+
+export interface ShapeOrientation {
+  /** Rotation in degrees, clockwise, applied after flipping */
+  rotation: number;
+  /** Mirror left to right */
+  flipX: boolean;
+  /** Mirror top to bottom */
+  flipY: boolean;
+}
+
+export const DEFAULT_ORIENTATION: ShapeOrientation = {
+  rotation: 0,
+  flipX: false,
+  flipY: false,
+};
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const ELLIPSE_RASTERIZATIONS = ["center", "midpoint", "lookup"] as const;
+
+// How ellipse-family masks are rasterized: sampling pixel centres, the
+// integer midpoint-circle algorithm, or hand-tuned tables for small circles.
+// Every strategy mirrors one quadrant, so the result is 4-way symmetric
+export type EllipseRasterization = typeof ELLIPSE_RASTERIZATIONS[number];
+
+export interface EllipseParams {
+  rasterization: EllipseRasterization;
+}
+
+export type CrescentCutDirection = "left" | "right" | "up" | "down";
+
+export interface CrescentParams extends EllipseParams {
+  /** Distance of the cut centre from the shape centre, as a fraction of the radius */
+  cutOffset: number;
+  cutDirection: CrescentCutDirection;
+  /** Size of the cut ellipse relative to the main ellipse */
+  cutRadiusRatio: number;
+}
+
+export interface RotationParams {
+  /**
+   * Angle in degrees, clockwise, of the first vertex. The vertices turn
+   * before they are stretched to the shape's width and height, so the
+   * shape keeps its size and its edges are rasterized exactly, unlike the
+   * orientation rotation, which turns the finished mask and grows its
+   * footprint.
+   */
+  rotation: number;
+}
+
+export interface PolygonParams extends RotationParams {
+  sides: number;
+}
+
+export interface StarParams extends RotationParams {
+  points: number;
+  /** Inner vertex radius as a fraction of the outer radius */
+  innerRadiusRatio: number;
+}
+
+export interface RingParams extends EllipseParams {
+  /** Band width in pixels, measured inward from the outer edge */
+  thickness: number;
+}
+
+export interface LineParams {
+  /** Integer pixel vertices, relative to the shape position */
+  points: Point[];
+  /** Snap each segment to 1:1, 1:2 or 1:3 pixel-art slopes */
+  snapSlopes: boolean;
+}
+
+export interface CurveParams {
+  /** 3 points for a quadratic or 4 for a cubic Bezier, relative to the shape position */
+  controlPoints: Point[];
+}
+
+export const BOOLEAN_OPERATIONS = ["union", "subtract", "intersect", "exclude"] as const;
+
+// How a composite combines its children's masks. The first child is the
+// base; subtract removes every later child from it, exclude keeps pixels
+// covered an odd number of times
+export type BooleanOperation = typeof BOOLEAN_OPERATIONS[number];
+
+export interface CompositeParams {
+  operation: BooleanOperation;
+  /** Bottom to top; positions are relative to the composite's position */
+  children: ShapeData[];
+}
+
+export interface CustomParams {
+  bitmapWidth: number;
+  bitmapHeight: number;
+  /** Run-length encoded pixels, see src/shapes/bitmap.ts */
+  bitmap: string;
+}
+
+export const BITMAP_TOOLS = ["pencil", "eraser", "fill"] as const;
+
+// Canvas tools for editing custom bitmap shapes pixel by pixel
+export type BitmapTool = typeof BITMAP_TOOLS[number];
+
+// Shapes without parameters of their own
+export type EmptyParams = Record<string, never>;
+
+// Per-shape parameters, keyed by shape type.
+// Shape types are implemented in src/shapes and registered there.
+export interface ShapeParamsMap {
+  ellipse: EllipseParams;
+  crescent: CrescentParams;
+  ring: RingParams;
+  box: EmptyParams;
+  triangle: RotationParams;
+  diamond: RotationParams;
+  polygon: PolygonParams;
+  star: StarParams;
+  line: LineParams;
+  curve: CurveParams;
+  composite: CompositeParams;
+  custom: CustomParams;
+}
+
+export type ShapeType = keyof ShapeParamsMap;
+
+export type ShapeParams<T extends ShapeType = ShapeType> = ShapeParamsMap[T];
+
+export interface PaletteEntry {
+  id: number;
+  name: string;
+  color: string;
+}
+
+export interface ShapeBase {
   id: number;
-  type: ShapeType;
   width: number;
   height: number;
+  /** Fill colour, and the colour the automatic outline is derived from */
   baseColor: string;
+  /** Palette entry the base colour follows, if any */
+  baseColorRef: number | null;
+  /** Explicit outline colour, such as a ramp step; null darkens the base colour by 30% */
+  outlineColor: string | null;
+  /** Palette entry the explicit outline colour follows, if any */
+  outlineColorRef: number | null;
+  outlineStyle: OutlineStyle;
+  /** Applied to the mask before outlining, so pixels stay on the grid */
+  orientation: ShapeOrientation;
+  fillMode: FillMode;
+  /** Dithering of fill pixels, anchored to world coordinates */
+  fillPattern: FillPattern;
+  /** Banded gradient from the base colour, relative to the shape bounds */
+  fillGradient: FillGradient;
+  /** Highlight and shadow bands derived from the base colour */
+  shading: Shading;
   opacity: number;
+  /** How the shape combines with the shapes below it */
+  blendMode: BlendMode;
   position: { x: number; y: number };
 }
 
+// Discriminated on `type`, so `params` narrows with it
+export type ShapeData = {
+  [T in ShapeType]: ShapeBase & { type: T; params: ShapeParamsMap[T] };
+}[ShapeType];
+
 export interface SnappingGuide {
   id: string;
   type: "V" | "H";
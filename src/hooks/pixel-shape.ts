@@ -1,7 +1,12 @@
 import type { RefObject } from 'react';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import type { ShapeData } from '../constants/pixel-shape';
-import { getCachedMask } from '../utils/pixel-shape';
+import { isShapePixelPainted } from '../utils/shape-render';
+import {
+  createSpatialIndex,
+  querySpatialIndexAt,
+  type SpatialIndex,
+} from '../utils/spatial-index';
 
 // Custom hook for viewport size
 export const useViewportSize = (containerRef: RefObject<HTMLDivElement | null>) => {
@@ -28,38 +33,29 @@ export const useViewportSize = (containerRef: RefObject<HTMLDivElement | null>)
   return viewportSize;
 };
 
-// Custom hook for shape hit testing
-export const useShapeHitTest = (shapes: ShapeData[]) => {
+// Custom hook for the spatial index of the shapes, rebuilt when they change
+export const useSpatialIndex = (shapes: ShapeData[]) =>
+  useMemo(() => createSpatialIndex(shapes), [shapes]);
+
+// Custom hook for shape hit testing - only painted pixels count as hits.
+// The index narrows the search to shapes whose bounds cover the point
+export const useShapeHitTest = (index: SpatialIndex) => {
   return useCallback(
     (mouseXWorld: number, mouseYWorld: number): ShapeData | null => {
-      for (let i = shapes.length - 1; i >= 0; i--) {
-        const shape = shapes[i];
-        const localX = mouseXWorld - shape.position.x;
-        const localY = mouseYWorld - shape.position.y;
-
-        if (
-          localX >= 0 &&
-          localX < shape.width &&
-          localY >= 0 &&
-          localY < shape.height
-        ) {
-          const mask = getCachedMask(shape.type, shape.width, shape.height);
-          const maskX = Math.floor(localX);
-          const maskY = Math.floor(localY);
-
-          if (
-            maskX >= 0 &&
-            maskX < shape.width &&
-            maskY >= 0 &&
-            maskY < shape.height &&
-            mask[maskY][maskX]
-          ) {
-            return shape;
-          }
+      const candidates = querySpatialIndexAt(index, mouseXWorld, mouseYWorld);
+      for (let i = candidates.length - 1; i >= 0; i--) {
+        const shape = candidates[i];
+        const localX = Math.floor(mouseXWorld - shape.position.x);
+        const localY = Math.floor(mouseYWorld - shape.position.y);
+
+        // Rotation and outlines placed outside the mask extend past the
+        // shape bounds, so the raster itself decides what is hit
+        if (isShapePixelPainted(shape, localX, localY)) {
+          return shape;
         }
       }
       return null;
     },
-    [shapes]
+    [index]
   );
-}; 
\ No newline at end of file
+}; 
@@ -1,19 +1,37 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import type { ShapeData, SnappingGuide } from '../constants/pixel-shape';
+import type {
+  BitmapTool,
+  Point,
+  ShapeData,
+  SnappingGuide,
+} from '../constants/pixel-shape';
 import {
   DOUBLE_CLICK_DELAY,
   DRAG_THRESHOLD,
+  HANDLE_HIT_RADIUS_SCREEN,
   MAX_ZOOM,
   MIN_ZOOM,
   SNAP_THRESHOLD_SCREEN,
 } from '../constants/pixel-shape';
-import { getTouchCenter, getTouchDistance } from '../utils/pixel-shape';
+import {
+  getShapeBounds,
+  getShapeHandles,
+  getTouchCenter,
+  getTouchDistance,
+} from '../utils/pixel-shape';
+import { getLinePixels } from '../shapes/geometry';
+import { querySpatialIndex } from '../utils/spatial-index';
+import { useShapeHitTest, useSpatialIndex } from './pixel-shape';
 
 interface UseCanvasInteractionProps {
   shapes: ShapeData[];
   selectedShapeId: number | null;
   onShapeSelect: (id: number | null) => void;
   onShapeMove: (id: number, position: { x: number; y: number }) => void;
+  onShapeHandleMove?: (id: number, index: number, point: Point) => void;
+  /** Tool used when pressing on a selected custom bitmap shape */
+  bitmapTool?: BitmapTool | null;
+  onShapePaint?: (id: number, points: Point[]) => void;
   initialZoom?: number;
   initialCanvasOffset?: { x: number; y: number };
   onViewChange?: (zoom: number, offset: { x: number; y: number }) => void;
@@ -45,6 +63,9 @@ export const useCanvasInteraction = ({
   selectedShapeId,
   onShapeSelect,
   onShapeMove,
+  onShapeHandleMove,
+  bitmapTool = null,
+  onShapePaint,
   initialZoom = 10,
   initialCanvasOffset = { x: 0, y: 0 },
   onViewChange,
@@ -76,6 +97,9 @@ export const useCanvasInteraction = ({
 
   // Refs
   const dragShapeStartOffsetRef = useRef({ x: 0, y: 0 });
+  const draggingHandleRef = useRef<number | null>(null);
+  const isPaintingRef = useRef(false);
+  const lastPaintPixelRef = useRef<Point | null>(null);
   const panStartRef = useRef({ x: 0, y: 0 });
   const viewportContainerRef = useRef<HTMLDivElement>(null);
   const zoomAnimationRef = useRef<number | null>(null);
@@ -119,10 +143,11 @@ export const useCanvasInteraction = ({
       let maxY = -Infinity;
 
       for (const shape of shapes) {
-        minX = Math.min(minX, shape.position.x);
-        minY = Math.min(minY, shape.position.y);
-        maxX = Math.max(maxX, shape.position.x + shape.width);
-        maxY = Math.max(maxY, shape.position.y + shape.height);
+        const bounds = getShapeBounds(shape);
+        minX = Math.min(minX, bounds.x);
+        minY = Math.min(minY, bounds.y);
+        maxX = Math.max(maxX, bounds.x + bounds.width);
+        maxY = Math.max(maxY, bounds.y + bounds.height);
       }
 
       const worldW = maxX - minX;
@@ -249,26 +274,29 @@ export const useCanvasInteraction = ({
     };
   }, [state.isSpacePressed, updateState]);
 
-  // Hit testing
-  const hitTest = useCallback(
-    (mouseXWorld: number, mouseYWorld: number): ShapeData | null => {
-      for (let i = shapes.length - 1; i >= 0; i--) {
-        const shape = shapes[i];
-        const localX = mouseXWorld - shape.position.x;
-        const localY = mouseYWorld - shape.position.y;
-
-        if (
-          localX >= 0 &&
-          localX < shape.width &&
-          localY >= 0 &&
-          localY < shape.height
-        ) {
-          return shape;
-        }
+  // Spatial index of the shapes, for hit testing, snapping and culling
+  const spatialIndex = useSpatialIndex(shapes);
+
+  // Hit testing against each shape's mask
+  const hitTest = useShapeHitTest(spatialIndex);
+
+  // Returns the index of the selected shape's handle under the pointer
+  const handleHitTest = useCallback(
+    (mouseXWorld: number, mouseYWorld: number, zoom: number): number | null => {
+      const selectedShape = shapes.find((s) => s.id === selectedShapeId);
+      if (!selectedShape) return null;
+
+      const radiusWorld = HANDLE_HIT_RADIUS_SCREEN / zoom;
+      const handles = getShapeHandles(selectedShape);
+      for (let i = handles.length - 1; i >= 0; i--) {
+        // Handles sit at pixel centres
+        const dx = mouseXWorld - (handles[i].x + 0.5);
+        const dy = mouseYWorld - (handles[i].y + 0.5);
+        if (dx * dx + dy * dy <= radiusWorld * radiusWorld) return i;
       }
       return null;
     },
-    [shapes]
+    [shapes, selectedShapeId]
   );
 
   // Handle pointer down
@@ -334,6 +362,34 @@ export const useCanvasInteraction = ({
       const mouseXWorld = (clientX - left - state.canvasOffset.x) / state.zoom;
       const mouseYWorld = (clientY - top - state.canvasOffset.y) / state.zoom;
 
+      // Handles of the selected shape take priority over shape hits
+      const hitHandle = shouldForcePan
+        ? null
+        : handleHitTest(mouseXWorld, mouseYWorld, state.zoom);
+      if (hitHandle !== null) {
+        draggingHandleRef.current = hitHandle;
+        return;
+      }
+
+      // With a bitmap tool active, presses on the selected custom shape's
+      // footprint paint it instead of dragging it
+      const selectedShape = shapes.find((s) => s.id === selectedShapeId);
+      if (bitmapTool && selectedShape?.type === 'custom' && !shouldForcePan) {
+        const pixel = { x: Math.floor(mouseXWorld), y: Math.floor(mouseYWorld) };
+        const bounds = getShapeBounds(selectedShape);
+        if (
+          pixel.x >= bounds.x &&
+          pixel.x < bounds.x + bounds.width &&
+          pixel.y >= bounds.y &&
+          pixel.y < bounds.y + bounds.height
+        ) {
+          isPaintingRef.current = true;
+          lastPaintPixelRef.current = pixel;
+          onShapePaint?.(selectedShape.id, [pixel]);
+          return;
+        }
+      }
+
       const hitShape = hitTest(mouseXWorld, mouseYWorld);
 
       if (hitShape && !shouldForcePan) {
@@ -355,8 +411,13 @@ export const useCanvasInteraction = ({
       state.canvasOffset,
       state.zoom,
       state.isSpacePressed,
+      shapes,
+      selectedShapeId,
+      bitmapTool,
       hitTest,
+      handleHitTest,
       onShapeSelect,
+      onShapePaint,
       updateState,
       smoothZoom,
     ]
@@ -490,7 +551,34 @@ export const useCanvasInteraction = ({
       // Force panning if space is pressed or if explicitly panning
       const shouldPan = state.isPanning || state.isSpacePressed;
 
-      if (selectedShapeId && !shouldPan) {
+      if (isPaintingRef.current) {
+        // Pencil and eraser strokes join up the pixels between events;
+        // a fill only happens on press
+        const { left, top } =
+          viewportContainerRef.current.getBoundingClientRect();
+        const pixel = {
+          x: Math.floor((clientX - left - state.canvasOffset.x) / state.zoom),
+          y: Math.floor((clientY - top - state.canvasOffset.y) / state.zoom),
+        };
+        const last = lastPaintPixelRef.current;
+        if (
+          bitmapTool !== 'fill' &&
+          selectedShapeId &&
+          last &&
+          (last.x !== pixel.x || last.y !== pixel.y)
+        ) {
+          onShapePaint?.(selectedShapeId, getLinePixels(last, pixel));
+          lastPaintPixelRef.current = pixel;
+        }
+      } else if (draggingHandleRef.current !== null && selectedShapeId) {
+        // Handle dragging - commits straight away so the mask follows
+        const { left, top } =
+          viewportContainerRef.current.getBoundingClientRect();
+        onShapeHandleMove?.(selectedShapeId, draggingHandleRef.current, {
+          x: Math.floor((clientX - left - state.canvasOffset.x) / state.zoom),
+          y: Math.floor((clientY - top - state.canvasOffset.y) / state.zoom),
+        });
+      } else if (selectedShapeId && !shouldPan) {
         // Shape dragging
         if (distance > DRAG_THRESHOLD) {
           updateState({ isDraggingShape: true });
@@ -512,56 +600,86 @@ export const useCanvasInteraction = ({
             y: mouseYWorld - dragShapeStartOffsetRef.current.y,
           };
 
-          // Snapping logic
+          // Snapping logic, on the rotated footprints. The footprint's
+          // offset from the position doesn't change while dragging
           const activeGuides: SnappingGuide[] = [];
           const snapThresholdWorld = SNAP_THRESHOLD_SCREEN / state.zoom;
+          const movingBounds = getShapeBounds(currentMovingShape);
+          const footprintX = movingBounds.x - currentMovingShape.position.x;
+          const footprintY = movingBounds.y - currentMovingShape.position.y;
           let currentDraggedCenterX =
-            tentativePos.x + currentMovingShape.width / 2;
+            tentativePos.x + footprintX + movingBounds.width / 2;
           let currentDraggedCenterY =
-            tentativePos.y + currentMovingShape.height / 2;
+            tentativePos.y + footprintY + movingBounds.height / 2;
+
+          // Only shapes in the dragged centre's column or row can snap. The
+          // bands are twice the threshold wide so shapes aligned with one
+          // snapped to earlier are still found
+          const snapReach = snapThresholdWorld * 2;
+          const extent = spatialIndex.extent;
+          const snapCandidates = extent
+            ? querySpatialIndex(
+                spatialIndex,
+                {
+                  x: currentDraggedCenterX - snapReach,
+                  y: extent.y,
+                  width: snapReach * 2,
+                  height: extent.height,
+                },
+                {
+                  x: extent.x,
+                  y: currentDraggedCenterY - snapReach,
+                  width: extent.width,
+                  height: snapReach * 2,
+                }
+              )
+            : [];
 
-          shapes.forEach((otherShape) => {
+          snapCandidates.forEach((otherShape) => {
             if (otherShape.id === selectedShapeId) return;
 
-            const otherCenterX = otherShape.position.x + otherShape.width / 2;
-            const otherCenterY = otherShape.position.y + otherShape.height / 2;
+            const otherBounds = getShapeBounds(otherShape);
+            const otherCenterX = otherBounds.x + otherBounds.width / 2;
+            const otherCenterY = otherBounds.y + otherBounds.height / 2;
 
             // Vertical snapping
             if (
               Math.abs(currentDraggedCenterX - otherCenterX) <
               snapThresholdWorld
             ) {
-              tentativePos.x = otherCenterX - currentMovingShape.width / 2;
+              tentativePos.x =
+                otherCenterX - footprintX - movingBounds.width / 2;
               currentDraggedCenterX =
-                tentativePos.x + currentMovingShape.width / 2;
+                tentativePos.x + footprintX + movingBounds.width / 2;
               activeGuides.push({
                 id: `v-${otherShape.id}`,
                 type: 'V',
                 x: otherCenterX,
-                startY: Math.min(tentativePos.y, otherShape.position.y),
+                startY: Math.min(tentativePos.y + footprintY, otherBounds.y),
                 endY: Math.max(
-                  tentativePos.y + currentMovingShape.height,
-                  otherShape.position.y + otherShape.height
+                  tentativePos.y + footprintY + movingBounds.height,
+                  otherBounds.y + otherBounds.height
                 ),
               });
             }
 
             // Horizontal snapping
             currentDraggedCenterY =
-              tentativePos.y + currentMovingShape.height / 2;
+              tentativePos.y + footprintY + movingBounds.height / 2;
             if (
               Math.abs(currentDraggedCenterY - otherCenterY) <
               snapThresholdWorld
             ) {
-              tentativePos.y = otherCenterY - currentMovingShape.height / 2;
+              tentativePos.y =
+                otherCenterY - footprintY - movingBounds.height / 2;
               activeGuides.push({
                 id: `h-${otherShape.id}`,
                 type: 'H',
                 y: otherCenterY,
-                startX: Math.min(tentativePos.x, otherShape.position.x),
+                startX: Math.min(tentativePos.x + footprintX, otherBounds.x),
                 endX: Math.max(
-                  tentativePos.x + currentMovingShape.width,
-                  otherShape.position.x + otherShape.width
+                  tentativePos.x + footprintX + movingBounds.width,
+                  otherBounds.x + otherBounds.width
                 ),
               });
             }
@@ -604,6 +722,10 @@ export const useCanvasInteraction = ({
       state,
       selectedShapeId,
       shapes,
+      spatialIndex,
+      bitmapTool,
+      onShapeHandleMove,
+      onShapePaint,
       updateState,
     ]
   );
@@ -617,6 +739,10 @@ export const useCanvasInteraction = ({
         dragPositionRef.current = null;
       }
       
+      draggingHandleRef.current = null;
+      isPaintingRef.current = false;
+      lastPaintPixelRef.current = null;
+
       // Cancel any pending RAF for visual drag updates
       if (dragRafRef.current) {
         cancelAnimationFrame(dragRafRef.current);
@@ -857,6 +983,7 @@ export const useCanvasInteraction = ({
   return {
     ...state,
     viewportContainerRef,
+    spatialIndex,
     handlePointerDown,
     resetView,
   };
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decodeBitmap,
+  encodeBitmap,
+  floodFillMask,
+  isValidBitmap,
+} from './bitmap';
+import { createMaskFrom, getMaskPixel, type ShapeMask } from './mask';
+
+/**
+ * A mask drawn as rows of "#" (set) and "." (empty).
+ */
+const fromRows = (rows: string[]): ShapeMask =>
+  createMaskFrom(rows[0].length, rows.length, (x, y) => rows[y][x] === '#');
+
+const toRows = (mask: ShapeMask): string[] =>
+  Array.from({ length: mask.height }, (_, y) =>
+    Array.from({ length: mask.width }, (_, x) =>
+      getMaskPixel(mask, x, y) ? '#' : '.'
+    ).join('')
+  );
+
+describe('bitmap encoding', () => {
+  it('stores alternating runs starting with empty pixels', () => {
+    expect(encodeBitmap(fromRows(['##..', '.###']))).toBe('0.2.3.3');
+    expect(encodeBitmap(createMaskFrom(10, 10, () => true))).toBe('0.2s');
+  });
+
+  it('decodes what it encodes', () => {
+    const rows = ['..#..#..#', '#########', '.........', '#.#.#.#.#'];
+    const mask = fromRows(rows);
+    const data = encodeBitmap(mask);
+
+    expect(isValidBitmap(data, 9, 4)).toBe(true);
+    expect(toRows(decodeBitmap(data, 9, 4))).toEqual(rows);
+  });
+
+  it('rejects data that does not fit the size', () => {
+    expect(isValidBitmap('0.2s', 10, 9)).toBe(false);
+    expect(isValidBitmap('0.2S', 10, 10)).toBe(false);
+    expect(isValidBitmap('0..2s', 10, 10)).toBe(false);
+  });
+});
+
+describe('floodFillMask', () => {
+  it('fills the 4-connected region around the start', () => {
+    const mask = fromRows(['.#...', '#..#.', '..#..']);
+
+    expect(floodFillMask(mask, { x: 4, y: 0 }, true)).toBe(true);
+    // The corner pixel only touches the region diagonally
+    expect(toRows(mask)).toEqual(['.####', '#####', '#####']);
+  });
+
+  it('clears a set region', () => {
+    const mask = fromRows(['##.', '#..', '..#']);
+
+    expect(floodFillMask(mask, { x: 0, y: 0 }, false)).toBe(true);
+    expect(toRows(mask)).toEqual(['...', '...', '..#']);
+  });
+
+  it('reports when there is nothing to change', () => {
+    const mask = fromRows(['#.', '.#']);
+
+    expect(floodFillMask(mask, { x: 0, y: 0 }, true)).toBe(false);
+    expect(floodFillMask(mask, { x: 2, y: 0 }, true)).toBe(false);
+    expect(toRows(mask)).toEqual(['#.', '.#']);
+  });
+});
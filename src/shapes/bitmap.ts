@@ -0,0 +1,104 @@
+import type { Point } from '../constants/pixel-shape';
+import {
+  createEmptyMask,
+  getMaskPixel,
+  setMaskPixel,
+  type ShapeMask,
+} from './mask';
+
+// Compact bitmap storage for custom shapes. Pixels are read row by row
+// and stored as alternating run lengths, starting with a run of empty
+// pixels (which may be 0). Runs are base-36 and separated by dots, so a
+// 10x10 square that is fully set encodes as "0.2s".
+
+const RUN_SEPARATOR = '.';
+const RUN_RADIX = 36;
+
+export const encodeBitmap = (mask: ShapeMask): string => {
+  const runs: number[] = [];
+  let current = false;
+  let length = 0;
+
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      const pixel = getMaskPixel(mask, x, y);
+      if (pixel === current) {
+        length++;
+      } else {
+        runs.push(length);
+        current = pixel;
+        length = 1;
+      }
+    }
+  }
+  runs.push(length);
+
+  return runs.map((run) => run.toString(RUN_RADIX)).join(RUN_SEPARATOR);
+};
+
+/**
+ * Run lengths of an encoded bitmap, or null if it is malformed.
+ */
+const parseRuns = (data: string): number[] | null => {
+  const runs = data.split(RUN_SEPARATOR).map((run) =>
+    /^[0-9a-z]+$/.test(run) ? parseInt(run, RUN_RADIX) : NaN
+  );
+  return runs.every(Number.isInteger) ? runs : null;
+};
+
+/**
+ * Whether an encoded bitmap holds exactly `width` x `height` pixels.
+ */
+export const isValidBitmap = (
+  data: string,
+  width: number,
+  height: number
+): boolean => {
+  const runs = parseRuns(data);
+  return runs !== null && runs.reduce((sum, run) => sum + run, 0) === width * height;
+};
+
+export const decodeBitmap = (
+  data: string,
+  width: number,
+  height: number
+): ShapeMask => {
+  const mask = createEmptyMask(width, height);
+  const runs = parseRuns(data) ?? [];
+  let index = 0;
+
+  runs.forEach((run, i) => {
+    const value = i % 2 === 1;
+    for (let end = Math.min(index + run, width * height); index < end; index++) {
+      setMaskPixel(mask, index % width, Math.floor(index / width), value);
+    }
+  });
+
+  return mask;
+};
+
+/**
+ * Sets every pixel 4-connected to `start` that has the same value as it,
+ * like a paint bucket. Returns false if there was nothing to change.
+ */
+export const floodFillMask = (
+  mask: ShapeMask,
+  start: Point,
+  value: boolean
+): boolean => {
+  const isInside = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < mask.width && y < mask.height;
+  if (!isInside(start.x, start.y)) return false;
+  const target = getMaskPixel(mask, start.x, start.y);
+  if (target === value) return false;
+
+  const stack: Point[] = [start];
+  while (stack.length > 0) {
+    const { x, y } = stack.pop()!;
+    if (!isInside(x, y) || getMaskPixel(mask, x, y) !== target) continue;
+
+    setMaskPixel(mask, x, y, value);
+    stack.push({ x: x + 1, y }, { x: x - 1, y }, { x, y: y + 1 }, { x, y: y - 1 });
+  }
+  return true;
+};
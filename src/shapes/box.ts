@@ -0,0 +1,14 @@
+import { isEmptyParams, isMaskEdgePixel, rasterizeMask } from './geometry';
+import type { ShapeDefinition } from './registry';
+
+export const boxShape: ShapeDefinition<'box'> = {
+  type: 'box',
+  label: 'Box',
+  defaults: { width: 10, height: 10, params: {} },
+  paramFields: [],
+  createMask: (width, height) => rasterizeMask(width, height, () => true),
+  // The mask's own edge rather than the box's, so rotated boxes outline
+  // their tilted sides
+  isOutlinePixel: isMaskEdgePixel,
+  validateParams: isEmptyParams,
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { BooleanOperation, ShapeData } from '../constants/pixel-shape';
+import {
+  DEFAULT_FILL_GRADIENT,
+  DEFAULT_FILL_PATTERN,
+  DEFAULT_ORIENTATION,
+  DEFAULT_OUTLINE_STYLE,
+  DEFAULT_SHADING,
+} from '../constants/pixel-shape';
+import { getShapeDefinition } from '.';
+import { getMaskPixel } from './mask';
+
+const compositeShape = getShapeDefinition('composite');
+
+const box = (x: number, y: number, width: number, height: number): ShapeData => ({
+  id: 0,
+  type: 'box',
+  params: {},
+  width,
+  height,
+  baseColor: '#000000',
+  baseColorRef: null,
+  outlineColor: null,
+  outlineColorRef: null,
+  outlineStyle: DEFAULT_OUTLINE_STYLE,
+  orientation: DEFAULT_ORIENTATION,
+  fillMode: 'fill',
+  fillPattern: DEFAULT_FILL_PATTERN,
+  fillGradient: DEFAULT_FILL_GRADIENT,
+  shading: DEFAULT_SHADING,
+  opacity: 1,
+  blendMode: 'normal',
+  position: { x, y },
+});
+
+/**
+ * The composite's mask drawn as rows of "#" (set) and "." (empty).
+ */
+const combine = (operation: BooleanOperation, children: ShapeData[]): string[] => {
+  const { width, height } = compositeShape.getSize!({ operation, children });
+  const mask = compositeShape.createMask(width, height, { operation, children });
+  return Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) =>
+      getMaskPixel(mask, x, y) ? '#' : '.'
+    ).join('')
+  );
+};
+
+// Two 4x4 boxes overlapping in a 2x2 square
+const OVERLAPPING = [box(0, 0, 4, 4), box(2, 2, 4, 4)];
+
+describe('composite masks', () => {
+  it.each<[BooleanOperation, string[]]>([
+    ['union', ['####..', '####..', '######', '######', '..####', '..####']],
+    ['subtract', ['####..', '####..', '##....', '##....', '......', '......']],
+    ['intersect', ['......', '......', '..##..', '..##..', '......', '......']],
+    ['exclude', ['####..', '####..', '##..##', '##..##', '..####', '..####']],
+  ])('combines overlapping children with %s', (operation, rows) => {
+    expect(combine(operation, OVERLAPPING)).toEqual(rows);
+  });
+
+  it('applies each later child to the result so far', () => {
+    const children = [box(0, 0, 5, 1), box(1, 0, 1, 1), box(3, 0, 1, 1)];
+
+    expect(combine('subtract', children)).toEqual(['#.#.#']);
+    expect(combine('exclude', [...children, box(1, 0, 3, 1)])).toEqual(['##.##']);
+  });
+
+  it('leaves nothing when the children share no pixel', () => {
+    const children = [box(0, 0, 3, 3), box(2, 0, 3, 3), box(4, 0, 2, 3)];
+
+    expect(combine('intersect', children)).toEqual(['......', '......', '......']);
+  });
+});
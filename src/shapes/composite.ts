@@ -0,0 +1,168 @@
+import type {
+  BooleanOperation,
+  CompositeParams,
+  ShapeData,
+} from '../constants/pixel-shape';
+import { BOOLEAN_OPERATIONS } from '../constants/pixel-shape';
+import { getOrientedFootprint } from '../utils/shape-orientation';
+import { isMaskEdgePixel } from './geometry';
+import { createEmptyMask, getMaskPixel, setMaskPixel } from './mask';
+import { getShapeMask } from './mask-cache';
+import type { ShapeDefinition } from './registry';
+
+export const BOOLEAN_OPERATION_LABELS: Record<BooleanOperation, string> = {
+  union: 'Union',
+  subtract: 'Subtract',
+  intersect: 'Intersect',
+  exclude: 'Exclude',
+};
+
+const combinePixel = (
+  operation: BooleanOperation,
+  current: boolean,
+  child: boolean
+): boolean => {
+  switch (operation) {
+    case 'union':
+      return current || child;
+    case 'subtract':
+      return current && !child;
+    case 'intersect':
+      return current && child;
+    case 'exclude':
+      return current !== child;
+  }
+};
+
+/**
+ * Bounds of the children's oriented masks, relative to the composite.
+ */
+export const getChildrenBounds = (children: ShapeData[]) => {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  for (const child of children) {
+    const footprint = getOrientedFootprint(child.width, child.height, child.orientation);
+    const x = child.position.x + footprint.offsetX;
+    const y = child.position.y + footprint.offsetY;
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x + footprint.width);
+    maxY = Math.max(maxY, y + footprint.height);
+  }
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * Shifts children so their bounds start at the composite's origin, and
+ * returns how far the composite has to move to keep them in place.
+ */
+export const anchorChildren = (children: ShapeData[]) => {
+  const bounds = getChildrenBounds(children);
+  return {
+    offset: { x: bounds.x, y: bounds.y },
+    children: children.map((child) => ({
+      ...child,
+      position: {
+        x: child.position.x - bounds.x,
+        y: child.position.y - bounds.y,
+      },
+    })),
+  };
+};
+
+export const compositeShape: ShapeDefinition<'composite'> = {
+  type: 'composite',
+  label: 'Composite',
+  listed: false,
+  defaults: {
+    width: 1,
+    height: 1,
+    params: { operation: 'union', children: [] },
+  },
+  paramFields: [
+    {
+      kind: 'select',
+      key: 'operation',
+      label: 'Operation',
+      options: BOOLEAN_OPERATIONS.map((value) => ({
+        value,
+        label: BOOLEAN_OPERATION_LABELS[value],
+      })),
+    },
+  ],
+  getSize: ({ children }) => {
+    const { width, height } = getChildrenBounds(children);
+    return { width, height };
+  },
+  // Children are combined as masks; their own outlines and colours are
+  // ignored, so the composite is outlined once on the combined mask
+  createMask: (width, height, { operation, children }) => {
+    const mask = createEmptyMask(width, height);
+    const placed = children.map((child) => {
+      const footprint = getOrientedFootprint(child.width, child.height, child.orientation);
+      return {
+        mask: getShapeMask(child),
+        left: child.position.x + footprint.offsetX,
+        top: child.position.y + footprint.offsetY,
+      };
+    });
+
+    // Only pixels inside every child survive, so just the area they all
+    // overlap is visited
+    if (operation === 'intersect') {
+      const left = Math.max(0, ...placed.map((child) => child.left));
+      const top = Math.max(0, ...placed.map((child) => child.top));
+      const right = Math.min(width, ...placed.map((child) => child.left + child.mask.width));
+      const bottom = Math.min(height, ...placed.map((child) => child.top + child.mask.height));
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          if (
+            placed.every((child) =>
+              getMaskPixel(child.mask, x - child.left, y - child.top)
+            )
+          ) {
+            setMaskPixel(mask, x, y, true);
+          }
+        }
+      }
+      return mask;
+    }
+
+    // The other operations leave pixels outside a child as they are, so
+    // each child only visits its own area. The first child starts the
+    // mask off whatever the operation
+    placed.forEach((child, index) => {
+      const combine = index === 0 ? 'union' : operation;
+      const right = Math.min(width, child.left + child.mask.width);
+      const bottom = Math.min(height, child.top + child.mask.height);
+      for (let y = Math.max(0, child.top); y < bottom; y++) {
+        for (let x = Math.max(0, child.left); x < right; x++) {
+          const inChild = getMaskPixel(child.mask, x - child.left, y - child.top);
+          setMaskPixel(
+            mask,
+            x,
+            y,
+            combinePixel(combine, getMaskPixel(mask, x, y), inChild)
+          );
+        }
+      }
+    });
+
+    return mask;
+  },
+  isOutlinePixel: isMaskEdgePixel,
+  // Children are checked as full shapes by the workspace loader
+  validateParams: (params): params is CompositeParams => {
+    if (typeof params !== 'object' || params === null) return false;
+    const p = params as Record<string, unknown>;
+    return (
+      BOOLEAN_OPERATIONS.includes(p.operation as BooleanOperation) &&
+      Array.isArray(p.children) &&
+      p.children.length >= 2
+    );
+  },
+};
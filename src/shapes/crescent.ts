@@ -0,0 +1,116 @@
+import type {
+  CrescentCutDirection,
+  CrescentParams,
+} from '../constants/pixel-shape';
+import {
+  createEllipseMask,
+  isEllipseRasterization,
+  rasterizationField,
+} from './ellipse-raster';
+import {
+  isMaskEdgePixel,
+  isNumberInRange,
+  isPointInEllipse,
+  rasterizeMask,
+} from './geometry';
+import { createMaskFrom, getMaskPixel } from './mask';
+import type { ShapeDefinition } from './registry';
+
+const CUT_OFFSET_RANGE = { min: 0, max: 2 };
+const CUT_RADIUS_RATIO_RANGE = { min: 0.1, max: 2 };
+
+const CUT_DIRECTIONS: Record<CrescentCutDirection, { x: number; y: number }> = {
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+  up: { x: 0, y: -1 },
+  down: { x: 0, y: 1 },
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const crescentShape: ShapeDefinition<'crescent'> = {
+  type: 'crescent',
+  label: 'Crescent',
+  defaults: {
+    width: 10,
+    height: 10,
+    params: {
+      cutOffset: 0.5,
+      cutDirection: 'right',
+      cutRadiusRatio: 1,
+      rasterization: 'center',
+    },
+  },
+  paramFields: [
+    {
+      kind: 'select',
+      key: 'cutDirection',
+      label: 'Cut Direction',
+      options: [
+        { value: 'right', label: 'Right' },
+        { value: 'left', label: 'Left' },
+        { value: 'up', label: 'Up' },
+        { value: 'down', label: 'Down' },
+      ],
+    },
+    {
+      kind: 'number',
+      key: 'cutOffset',
+      label: 'Cut Offset',
+      ...CUT_OFFSET_RANGE,
+      step: 0.05,
+      format: formatPercent,
+    },
+    {
+      kind: 'number',
+      key: 'cutRadiusRatio',
+      label: 'Cut Size',
+      ...CUT_RADIUS_RATIO_RANGE,
+      step: 0.05,
+      format: formatPercent,
+    },
+    rasterizationField,
+  ],
+  createMask: (
+    width,
+    height,
+    { cutOffset, cutDirection, cutRadiusRatio, rasterization }
+  ) => {
+    const radiusX = width / 2;
+    const radiusY = height / 2;
+    const direction = CUT_DIRECTIONS[cutDirection];
+    const cutCenterX = radiusX + direction.x * radiusX * cutOffset;
+    const cutCenterY = radiusY + direction.y * radiusY * cutOffset;
+    const cutRadiusX = radiusX * cutRadiusRatio;
+    const cutRadiusY = radiusY * cutRadiusRatio;
+
+    // Only the body follows the rasterization strategy; the cut is
+    // sampled, as it sits off-centre and has no symmetry to keep
+    const body = createEllipseMask(width, height, rasterization);
+    const cut = rasterizeMask(width, height, (px, py) =>
+      isPointInEllipse(px, py, cutCenterX, cutCenterY, cutRadiusX, cutRadiusY)
+    );
+
+    return createMaskFrom(
+      width,
+      height,
+      (x, y) => getMaskPixel(body, x, y) && !getMaskPixel(cut, x, y)
+    );
+  },
+  isOutlinePixel: isMaskEdgePixel,
+  validateParams: (params): params is CrescentParams => {
+    if (typeof params !== 'object' || params === null) return false;
+    const p = params as Record<string, unknown>;
+    return (
+      isNumberInRange(p.cutOffset, CUT_OFFSET_RANGE.min, CUT_OFFSET_RANGE.max) &&
+      isNumberInRange(
+        p.cutRadiusRatio,
+        CUT_RADIUS_RATIO_RANGE.min,
+        CUT_RADIUS_RATIO_RANGE.max
+      ) &&
+      typeof p.cutDirection === 'string' &&
+      Object.keys(CUT_DIRECTIONS).includes(p.cutDirection) &&
+      isEllipseRasterization(p.rasterization)
+    );
+  },
+};
@@ -0,0 +1,122 @@
+import type { CurveParams, Point } from '../constants/pixel-shape';
+import {
+  getLinePixels,
+  getPointsSize,
+  isPointList,
+  isStrokePixel,
+  plotPixels,
+  shiftToOrigin,
+} from './geometry';
+import { createEmptyMask } from './mask';
+import type { ShapeDefinition } from './registry';
+
+const MAX_COORDINATE = 512;
+const POINT_COUNT_RANGE = { min: 3, max: 4 };
+
+const evaluateBezier = (points: Point[], t: number): Point => {
+  // De Casteljau works for any degree
+  let current = points;
+  while (current.length > 1) {
+    const next: Point[] = [];
+    for (let i = 0; i < current.length - 1; i++) {
+      next.push({
+        x: current[i].x + (current[i + 1].x - current[i].x) * t,
+        y: current[i].y + (current[i + 1].y - current[i].y) * t,
+      });
+    }
+    current = next;
+  }
+  return current[0];
+};
+
+/**
+ * Ordered, 8-connected pixels along the curve.
+ */
+const traceCurve = (points: Point[]): Point[] => {
+  let polygonLength = 0;
+  for (let i = 1; i < points.length; i++) {
+    polygonLength += Math.hypot(
+      points[i].x - points[i - 1].x,
+      points[i].y - points[i - 1].y
+    );
+  }
+  // The control polygon is never shorter than the curve, so two samples
+  // per unit of it keeps consecutive samples within a pixel of each other
+  const steps = Math.max(1, Math.ceil(polygonLength * 2));
+
+  const path: Point[] = [points[0]];
+  for (let i = 1; i <= steps; i++) {
+    const sample = evaluateBezier(points, i / steps);
+    const pixel = { x: Math.round(sample.x), y: Math.round(sample.y) };
+    const last = path[path.length - 1];
+    if (pixel.x === last.x && pixel.y === last.y) continue;
+    // Bridge any gap so the path stays connected
+    path.push(...getLinePixels(last, pixel).slice(1));
+  }
+  return path;
+};
+
+/**
+ * Drops L-shaped corner pixels: a pixel whose neighbours along the path
+ * touch each other diagonally is redundant.
+ */
+const removeDoubledPixels = (path: Point[]): Point[] => {
+  const result: Point[] = [];
+  for (let i = 0; i < path.length; i++) {
+    const previous = result[result.length - 1];
+    const next = path[i + 1];
+    if (
+      previous &&
+      next &&
+      Math.abs(previous.x - next.x) === 1 &&
+      Math.abs(previous.y - next.y) === 1
+    ) {
+      continue;
+    }
+    result.push(path[i]);
+  }
+  return result;
+};
+
+export const curveShape: ShapeDefinition<'curve'> = {
+  type: 'curve',
+  label: 'Curve',
+  defaults: {
+    width: 13,
+    height: 8,
+    params: {
+      controlPoints: [
+        { x: 0, y: 7 },
+        { x: 3, y: 0 },
+        { x: 9, y: 0 },
+        { x: 12, y: 7 },
+      ],
+    },
+  },
+  paramFields: [
+    {
+      kind: 'points',
+      key: 'controlPoints',
+      label: 'Control Points',
+      minPoints: POINT_COUNT_RANGE.min,
+      maxPoints: POINT_COUNT_RANGE.max,
+    },
+  ],
+  handleParam: 'controlPoints',
+  getSize: ({ controlPoints }) => getPointsSize(shiftToOrigin(controlPoints)),
+  createMask: (width, height, { controlPoints }) => {
+    const mask = createEmptyMask(width, height);
+    plotPixels(mask, removeDoubledPixels(traceCurve(shiftToOrigin(controlPoints))));
+    return mask;
+  },
+  isOutlinePixel: isStrokePixel,
+  validateParams: (params): params is CurveParams =>
+    typeof params === 'object' &&
+    params !== null &&
+    isPointList(
+      (params as Record<string, unknown>).controlPoints,
+      POINT_COUNT_RANGE.min,
+      POINT_COUNT_RANGE.max,
+      MAX_COORDINATE
+    ),
+};
@@ -0,0 +1,39 @@
+import type { CustomParams } from '../constants/pixel-shape';
+import { decodeBitmap, isValidBitmap } from './bitmap';
+import { isIntegerInRange, isMaskEdgePixel } from './geometry';
+import { createMaskFrom, getMaskPixel } from './mask';
+import type { ShapeDefinition } from './registry';
+
+const MAX_BITMAP_SIZE = 4096;
+
+export const customShape: ShapeDefinition<'custom'> = {
+  type: 'custom',
+  label: 'Custom Bitmap',
+  // Made by converting another shape, then edited on the canvas
+  listed: false,
+  defaults: {
+    width: 1,
+    height: 1,
+    params: { bitmapWidth: 1, bitmapHeight: 1, bitmap: '0.1' },
+  },
+  paramFields: [],
+  getSize: ({ bitmapWidth, bitmapHeight }) => ({
+    width: bitmapWidth,
+    height: bitmapHeight,
+  }),
+  createMask: (width, height, { bitmap, bitmapWidth, bitmapHeight }) => {
+    const pixels = decodeBitmap(bitmap, bitmapWidth, bitmapHeight);
+    return createMaskFrom(width, height, (x, y) => getMaskPixel(pixels, x, y));
+  },
+  isOutlinePixel: isMaskEdgePixel,
+  validateParams: (params): params is CustomParams => {
+    if (typeof params !== 'object' || params === null) return false;
+    const p = params as Record<string, unknown>;
+    return (
+      isIntegerInRange(p.bitmapWidth, 1, MAX_BITMAP_SIZE) &&
+      isIntegerInRange(p.bitmapHeight, 1, MAX_BITMAP_SIZE) &&
+      typeof p.bitmap === 'string' &&
+      isValidBitmap(p.bitmap, p.bitmapWidth as number, p.bitmapHeight as number)
+    );
+  },
+};
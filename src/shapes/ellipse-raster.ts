@@ -0,0 +1,168 @@
+import type {
+  EllipseParams,
+  EllipseRasterization,
+} from '../constants/pixel-shape';
+import { ELLIPSE_RASTERIZATIONS } from '../constants/pixel-shape';
+import { isPointInEllipse } from './geometry';
+import { createEmptyMask, createMaskFrom, type ShapeMask } from './mask';
+import type { ShapeParamField } from './registry';
+
+// Rasterization strategies for the ellipse family. Each one only decides
+// the top-left quadrant, as the number of empty pixels before the shape
+// starts on each row of the top half; the mask is mirrored from that, so
+// every strategy is symmetric both ways by construction.
+
+/**
+ * Hand-drawn circles for sizes where sampling looks lumpy, as left insets
+ * of the top half rows.
+ */
+const CIRCLE_LOOKUP: Record<number, number[]> = {
+  3: [1, 0],
+  4: [1, 0],
+  5: [1, 0, 0],
+  6: [1, 0, 0],
+  7: [2, 1, 0, 0],
+  8: [2, 1, 0, 0],
+  9: [3, 1, 1, 0, 0],
+  10: [3, 1, 1, 0, 0],
+  11: [4, 2, 1, 1, 0, 0],
+  12: [4, 2, 1, 1, 0, 0],
+  13: [4, 2, 1, 1, 0, 0, 0],
+  14: [5, 3, 2, 1, 1, 0, 0],
+  15: [5, 3, 2, 1, 1, 0, 0, 0],
+  16: [5, 3, 2, 1, 1, 0, 0, 0],
+};
+
+const RASTERIZATION_LABELS: Record<EllipseRasterization, string> = {
+  center: 'Centre Sampling',
+  midpoint: 'Midpoint Circle',
+  lookup: 'Small-Size Lookup',
+};
+
+export const rasterizationField: ShapeParamField<EllipseParams> = {
+  kind: 'select',
+  key: 'rasterization',
+  label: 'Rasterization',
+  options: ELLIPSE_RASTERIZATIONS.map((value) => ({
+    value,
+    label: RASTERIZATION_LABELS[value],
+  })),
+};
+
+export const isEllipseRasterization = (
+  value: unknown
+): value is EllipseRasterization =>
+  ELLIPSE_RASTERIZATIONS.includes(value as EllipseRasterization);
+
+const getSamplingInsets = (width: number, height: number): number[] => {
+  const radiusX = width / 2;
+  const radiusY = height / 2;
+  const halfWidth = Math.ceil(width / 2);
+  const insets: number[] = [];
+
+  for (let y = 0; y < Math.ceil(height / 2); y++) {
+    let inset = 0;
+    while (
+      inset < halfWidth &&
+      !isPointInEllipse(inset + 0.5, y + 0.5, radiusX, radiusY, radiusX, radiusY)
+    ) {
+      inset++;
+    }
+    insets.push(inset);
+  }
+  return insets;
+};
+
+/**
+ * Half-span of each row from the centre, for integer radii, using the
+ * midpoint ellipse algorithm. Index is the row's distance from the centre.
+ */
+const getMidpointSpans = (radiusX: number, radiusY: number): number[] => {
+  const spans = Array<number>(radiusY + 1).fill(0);
+  if (radiusY === 0) {
+    spans[0] = radiusX;
+    return spans;
+  }
+
+  const rx2 = radiusX * radiusX;
+  const ry2 = radiusY * radiusY;
+  let x = 0;
+  let y = radiusY;
+
+  // Region 1: the slope is shallower than -1, so x steps every pixel
+  let decision = ry2 - rx2 * radiusY + rx2 / 4;
+  while (ry2 * x < rx2 * y) {
+    spans[y] = Math.max(spans[y], x);
+    x++;
+    if (decision < 0) {
+      decision += ry2 * (2 * x + 1);
+    } else {
+      y--;
+      decision += ry2 * (2 * x + 1) - 2 * rx2 * y;
+    }
+  }
+
+  // Region 2: the slope is steeper, so y steps every pixel
+  decision = ry2 * (x + 0.5) * (x + 0.5) + rx2 * (y - 1) * (y - 1) - rx2 * ry2;
+  while (y >= 0) {
+    spans[y] = Math.max(spans[y], x);
+    y--;
+    if (decision > 0) {
+      decision += rx2 * (1 - 2 * y);
+    } else {
+      x++;
+      decision += 2 * ry2 * x + rx2 * (1 - 2 * y);
+    }
+  }
+
+  return spans.map((span) => Math.min(span, radiusX));
+};
+
+/**
+ * Even sizes get a doubled centre row or column, so an ellipse of even
+ * width is the odd one below it split down the middle.
+ */
+const getMidpointInsets = (width: number, height: number): number[] => {
+  const radiusX = Math.floor((width - 1) / 2);
+  const radiusY = Math.floor((height - 1) / 2);
+  const spans = getMidpointSpans(radiusX, radiusY);
+  return spans.reverse().map((span) => radiusX - span);
+};
+
+const getEllipseInsets = (
+  width: number,
+  height: number,
+  rasterization: EllipseRasterization
+): number[] => {
+  switch (rasterization) {
+    case 'center':
+      return getSamplingInsets(width, height);
+    case 'midpoint':
+      return getMidpointInsets(width, height);
+    case 'lookup':
+      // Tables only cover small circles; anything else has no hand-drawn
+      // form to match, so it falls back to the midpoint algorithm
+      return width === height && CIRCLE_LOOKUP[width]
+        ? CIRCLE_LOOKUP[width]
+        : getMidpointInsets(width, height);
+  }
+};
+
+/**
+ * Rasterizes an ellipse filling a `width` x `height` box with the given
+ * strategy. The result is mirror-symmetric horizontally and vertically.
+ */
+export const createEllipseMask = (
+  width: number,
+  height: number,
+  rasterization: EllipseRasterization
+): ShapeMask => {
+  if (width <= 0 || height <= 0) return createEmptyMask(0, 0);
+
+  const insets = getEllipseInsets(width, height, rasterization);
+  return createMaskFrom(
+    width,
+    height,
+    (x, y) => Math.min(x, width - 1 - x) >= insets[Math.min(y, height - 1 - y)]
+  );
+};
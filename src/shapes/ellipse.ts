@@ -0,0 +1,22 @@
+import type { EllipseParams } from '../constants/pixel-shape';
+import {
+  createEllipseMask,
+  isEllipseRasterization,
+  rasterizationField,
+} from './ellipse-raster';
+import { isMaskEdgePixel } from './geometry';
+import type { ShapeDefinition } from './registry';
+
+export const ellipseShape: ShapeDefinition<'ellipse'> = {
+  type: 'ellipse',
+  label: 'Ellipse',
+  defaults: { width: 10, height: 10, params: { rasterization: 'center' } },
+  paramFields: [rasterizationField],
+  createMask: (width, height, { rasterization }) =>
+    createEllipseMask(width, height, rasterization),
+  isOutlinePixel: isMaskEdgePixel,
+  validateParams: (params): params is EllipseParams =>
+    typeof params === 'object' &&
+    params !== null &&
+    isEllipseRasterization((params as Record<string, unknown>).rasterization),
+};
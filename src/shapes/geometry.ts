@@ -0,0 +1,214 @@
+import type { OutlineConnectivity, Point } from '../constants/pixel-shape';
+import {
+  createMaskFrom,
+  getMaskPixel,
+  setMaskPixel,
+  type ShapeMask,
+} from './mask';
+
+// Rasterization helpers shared by shape definitions
+
+// Utility function to check if a point is inside an ellipse
+export const isPointInEllipse = (
+  px: number,
+  py: number,
+  centerX: number,
+  centerY: number,
+  radiusX: number,
+  radiusY: number
+): boolean => {
+  if (radiusX <= 0 || radiusY <= 0) return false;
+
+  const normalizedX = (px - centerX) / radiusX;
+  const normalizedY = (py - centerY) / radiusY;
+  return normalizedX * normalizedX + normalizedY * normalizedY <= 1;
+};
+
+/**
+ * Even-odd point-in-polygon test.
+ */
+export const isPointInPolygon = (
+  px: number,
+  py: number,
+  vertices: Point[]
+): boolean => {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if (
+      a.y > py !== b.y > py &&
+      px < ((b.x - a.x) * (py - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Builds a mask by sampling `inside` at every pixel centre.
+ */
+export const rasterizeMask = (
+  width: number,
+  height: number,
+  inside: (px: number, py: number) => boolean
+): ShapeMask => createMaskFrom(width, height, (x, y) => inside(x + 0.5, y + 0.5));
+
+/**
+ * Pixels of a one-pixel line between two integer pixels (Bresenham),
+ * including both ends.
+ */
+export const getLinePixels = (from: Point, to: Point): Point[] => {
+  const dx = Math.abs(to.x - from.x);
+  const dy = -Math.abs(to.y - from.y);
+  const stepX = from.x < to.x ? 1 : -1;
+  const stepY = from.y < to.y ? 1 : -1;
+  let error = dx + dy;
+  let x = from.x;
+  let y = from.y;
+  const pixels: Point[] = [];
+
+  while (true) {
+    pixels.push({ x, y });
+    if (x === to.x && y === to.y) break;
+
+    const doubled = 2 * error;
+    if (doubled >= dy) {
+      error += dy;
+      x += stepX;
+    }
+    if (doubled <= dx) {
+      error += dx;
+      y += stepY;
+    }
+  }
+
+  return pixels;
+};
+
+/**
+ * Pixels of a one-pixel line drawn as runs along its major axis, split as
+ * evenly as the pixel counts allow, including both ends. When the pixels
+ * along the major axis are a multiple of those along the minor one, every
+ * run has the same length, which Bresenham only gives for 1:1 and 1:2.
+ */
+export const getStairPixels = (from: Point, to: Point): Point[] => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const xIsMajor = Math.abs(dx) >= Math.abs(dy);
+  const major = Math.max(Math.abs(dx), Math.abs(dy));
+  const minor = Math.min(Math.abs(dx), Math.abs(dy));
+  const signX = Math.sign(dx);
+  const signY = Math.sign(dy);
+
+  const pixels: Point[] = [];
+  for (let step = 0; step <= major; step++) {
+    const minorStep = Math.floor((step * (minor + 1)) / (major + 1));
+    pixels.push(
+      xIsMajor
+        ? { x: from.x + signX * step, y: from.y + signY * minorStep }
+        : { x: from.x + signX * minorStep, y: from.y + signY * step }
+    );
+  }
+  return pixels;
+};
+
+/**
+ * Sets the given pixels in a mask, skipping any outside it.
+ */
+export const plotPixels = (mask: ShapeMask, pixels: Point[]): void => {
+  for (const { x, y } of pixels) {
+    setMaskPixel(mask, x, y, true);
+  }
+};
+
+/**
+ * Shifts points so their bounding box starts at (0, 0).
+ */
+export const shiftToOrigin = (points: Point[]): Point[] => {
+  const minX = Math.min(...points.map((p) => p.x));
+  const minY = Math.min(...points.map((p) => p.y));
+  return points.map((p) => ({ x: p.x - minX, y: p.y - minY }));
+};
+
+/**
+ * Mask size needed to hold origin-based integer points.
+ */
+export const getPointsSize = (points: Point[]) => ({
+  width: Math.max(...points.map((p) => p.x)) + 1,
+  height: Math.max(...points.map((p) => p.y)) + 1,
+});
+
+export const isPointList = (
+  value: unknown,
+  minPoints: number,
+  maxPoints: number,
+  maxCoordinate: number
+): value is Point[] =>
+  Array.isArray(value) &&
+  value.length >= minPoints &&
+  value.length <= maxPoints &&
+  value.every(
+    (point: unknown) =>
+      typeof point === 'object' &&
+      point !== null &&
+      isIntegerInRange((point as Point).x, 0, maxCoordinate) &&
+      isIntegerInRange((point as Point).y, 0, maxCoordinate)
+  );
+
+/**
+ * Default outline rule: a mask pixel is on the outline when a neighbour is
+ * empty, or when it touches the bounding box edge. Checking all 8
+ * neighbours gives a 4-connected outline; checking only the 4 orthogonal
+ * ones gives a thinner 8-connected outline.
+ */
+export const isMaskEdgePixel = (
+  x: number,
+  y: number,
+  mask: ShapeMask,
+  width: number,
+  height: number,
+  connectivity: OutlineConnectivity = 4
+): boolean => {
+  for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+    for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+      if (nx === x && ny === y) continue;
+      if (connectivity === 8 && nx !== x && ny !== y) continue;
+      if (!getMaskPixel(mask, nx, ny)) return true;
+    }
+  }
+
+  if (x === 0 || x === width - 1 || y === 0 || y === height - 1) {
+    return getMaskPixel(mask, x, y);
+  }
+
+  return false;
+};
+
+/**
+ * Outline rule for strokes, which have no interior.
+ */
+export const isStrokePixel = (): boolean => true;
+
+/**
+ * Validator for shapes that take no parameters.
+ */
+export const isEmptyParams = (
+  params: unknown
+): params is Record<string, never> =>
+  typeof params === 'object' && params !== null && !Array.isArray(params);
+
+export const isIntegerInRange = (
+  value: unknown,
+  min: number,
+  max: number
+): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+export const isNumberInRange = (
+  value: unknown,
+  min: number,
+  max: number
+): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
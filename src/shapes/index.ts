@@ -0,0 +1,47 @@
+import { boxShape } from './box';
+import { compositeShape } from './composite';
+import { crescentShape } from './crescent';
+import { curveShape } from './curve';
+import { customShape } from './custom';
+import { ellipseShape } from './ellipse';
+import { lineShape } from './line';
+import {
+  diamondShape,
+  polygonShape,
+  starShape,
+  triangleShape,
+} from './polygon';
+import { registerShape } from './registry';
+import { ringShape } from './ring';
+
+// Registration order is the order shapes appear in the UI
+registerShape(ellipseShape);
+registerShape(crescentShape);
+registerShape(ringShape);
+registerShape(boxShape);
+registerShape(triangleShape);
+registerShape(diamondShape);
+registerShape(polygonShape);
+registerShape(starShape);
+registerShape(lineShape);
+registerShape(curveShape);
+registerShape(compositeShape);
+registerShape(customShape);
+
+export { decodeBitmap, encodeBitmap, floodFillMask } from './bitmap';
+export {
+  anchorChildren,
+  BOOLEAN_OPERATION_LABELS,
+  getChildrenBounds,
+} from './composite';
+export {
+  getShapeDefinition,
+  getShapeDefinitions,
+  isShapeType,
+  registerShape,
+} from './registry';
+export type {
+  ShapeDefinition,
+  ShapeParamField,
+  ShapeParamValue,
+} from './registry';
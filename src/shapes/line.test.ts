@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { Point } from '../constants/pixel-shape';
+import { lineShape } from './line';
+import { getMaskPixel } from './mask';
+
+/**
+ * Lengths of the runs of pixels along the major axis of a slope-snapped
+ * line from the origin, as its mask draws them.
+ */
+const getSnappedRuns = (to: Point): number[] => {
+  const params = { points: [{ x: 0, y: 0 }, to], snapSlopes: true };
+  const { width, height } = lineShape.getSize!(params);
+  const mask = lineShape.createMask(width, height, params);
+  const xIsMajor = width >= height;
+
+  const runs: number[] = [];
+  let previousMinor = -1;
+  for (let major = 0; major < Math.max(width, height); major++) {
+    // Each step along the major axis draws one pixel
+    let minor = 0;
+    while (
+      !(xIsMajor
+        ? getMaskPixel(mask, major, minor)
+        : getMaskPixel(mask, minor, major))
+    ) {
+      minor++;
+    }
+
+    if (minor === previousMinor) runs[runs.length - 1]++;
+    else runs.push(1);
+    previousMinor = minor;
+  }
+  return runs;
+};
+
+describe('pixel-art slope snapping', () => {
+  it.each([
+    [{ x: 9, y: 4 }, 2],
+    [{ x: 9, y: 3 }, 3],
+    [{ x: 12, y: 4 }, 3],
+    [{ x: 8, y: 8 }, 1],
+    [{ x: 3, y: 11 }, 3],
+  ])('draws equal runs towards %o', (to, runLength) => {
+    const runs = getSnappedRuns(to);
+    expect(runs.length).toBeGreaterThan(1);
+    expect(runs.every((run) => run === runLength)).toBe(true);
+  });
+
+  it('draws equal runs for every end point', () => {
+    for (let x = 1; x <= 40; x++) {
+      for (let y = 1; y <= 40; y++) {
+        expect(new Set(getSnappedRuns({ x, y })).size).toBe(1);
+      }
+    }
+  });
+
+  it('leaves axis-aligned lines straight', () => {
+    expect(getSnappedRuns({ x: 10, y: 1 })).toEqual([11]);
+  });
+});
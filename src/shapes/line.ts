@@ -0,0 +1,124 @@
+import type { LineParams, Point } from '../constants/pixel-shape';
+import {
+  getLinePixels,
+  getPointsSize,
+  getStairPixels,
+  isPointList,
+  isStrokePixel,
+  plotPixels,
+  shiftToOrigin,
+} from './geometry';
+import { createEmptyMask } from './mask';
+import type { ShapeDefinition } from './registry';
+
+const MAX_COORDINATE = 512;
+const POINT_COUNT_RANGE = { min: 2, max: 16 };
+
+// Pixel-art slopes as steps along the major axis per step along the minor
+// axis: 1:1, 1:2 and 1:3. Zero means axis-aligned.
+const PIXEL_ART_STEPS = [0, 1, 2, 3];
+
+/**
+ * Moves `to` so the segment from `from` follows the nearest pixel-art
+ * slope, keeping its direction and roughly its length.
+ */
+const snapSegment = (from: Point, to: Point): Point => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const xIsMajor = Math.abs(dx) >= Math.abs(dy);
+  const major = Math.max(Math.abs(dx), Math.abs(dy));
+  const minor = Math.min(Math.abs(dx), Math.abs(dy));
+  if (major === 0) return to;
+
+  const angle = Math.atan2(minor, major);
+  let bestSteps = 0;
+  let bestDelta = Infinity;
+  for (const steps of PIXEL_ART_STEPS) {
+    const delta = Math.abs(angle - (steps === 0 ? 0 : Math.atan2(1, steps)));
+    if (delta < bestDelta) {
+      bestDelta = delta;
+      bestSteps = steps;
+    }
+  }
+
+  let snappedMajor = major;
+  let snappedMinor = 0;
+  if (bestSteps > 0) {
+    // Whole stair steps only: `runs` runs of `bestSteps` pixels span
+    // runs * bestSteps - 1 pixels along the major axis and runs - 1 along
+    // the minor one, and are drawn as equal stairs (see `getStairPixels`)
+    const runs = Math.max(1, Math.round((major + 1) / bestSteps));
+    snappedMajor = runs * bestSteps - 1;
+    snappedMinor = runs - 1;
+  }
+
+  const signX = Math.sign(dx) || 1;
+  const signY = Math.sign(dy) || 1;
+  return xIsMajor
+    ? { x: from.x + signX * snappedMajor, y: from.y + signY * snappedMinor }
+    : { x: from.x + signX * snappedMinor, y: from.y + signY * snappedMajor };
+};
+
+/**
+ * Vertices as rasterized: slope-snapped if requested, then shifted so the
+ * bounding box starts at the shape position.
+ */
+export const resolveLinePoints = ({ points, snapSlopes }: LineParams): Point[] => {
+  const resolved: Point[] = [];
+  for (const point of points) {
+    const previous = resolved[resolved.length - 1];
+    resolved.push(snapSlopes && previous ? snapSegment(previous, point) : point);
+  }
+
+  return shiftToOrigin(resolved);
+};
+
+export const lineShape: ShapeDefinition<'line'> = {
+  type: 'line',
+  label: 'Line',
+  defaults: {
+    width: 10,
+    height: 5,
+    params: {
+      points: [
+        { x: 0, y: 0 },
+        { x: 9, y: 4 },
+      ],
+      snapSlopes: false,
+    },
+  },
+  paramFields: [
+    {
+      kind: 'points',
+      key: 'points',
+      label: 'Vertices',
+      minPoints: POINT_COUNT_RANGE.min,
+      maxPoints: POINT_COUNT_RANGE.max,
+    },
+    { kind: 'toggle', key: 'snapSlopes', label: 'Pixel-Art Slopes' },
+  ],
+  getSize: (params) => getPointsSize(resolveLinePoints(params)),
+  createMask: (width, height, params) => {
+    const mask = createEmptyMask(width, height);
+    const points = resolveLinePoints(params);
+    const getSegmentPixels = params.snapSlopes ? getStairPixels : getLinePixels;
+    for (let i = 1; i < points.length; i++) {
+      plotPixels(mask, getSegmentPixels(points[i - 1], points[i]));
+    }
+    return mask;
+  },
+  isOutlinePixel: isStrokePixel,
+  validateParams: (params): params is LineParams => {
+    if (typeof params !== 'object' || params === null) return false;
+    const p = params as Record<string, unknown>;
+    return (
+      typeof p.snapSlopes === 'boolean' &&
+      isPointList(
+        p.points,
+        POINT_COUNT_RANGE.min,
+        POINT_COUNT_RANGE.max,
+        MAX_COORDINATE
+      )
+    );
+  },
+};
@@ -0,0 +1,75 @@
+import type {
+  ShapeData,
+  ShapeParams,
+  ShapeType,
+} from '../constants/pixel-shape';
+import { createLruCache, type CacheStats } from '../utils/lru-cache';
+import { orientMask } from '../utils/shape-orientation';
+import { createEmptyMask, type ShapeMask } from './mask';
+import { getShapeDefinition } from './registry';
+
+// Shape mask cache - stores computed masks to avoid recalculation. It is
+// bounded, as scrubbing a size slider creates a mask per value passed.
+// It sits beside the shape definitions so composites can reuse their
+// children's masks; `utils/pixel-shape` re-exports it for everything else
+const MAX_CACHED_MASKS = 512;
+const maskCache = createLruCache<string, ShapeMask>(MAX_CACHED_MASKS);
+
+/**
+ * Returns a cached shape mask, computing it only if not already cached.
+ * This significantly reduces CPU usage during hit-testing and rendering.
+ */
+export const getCachedMask = (
+  shapeType: ShapeType,
+  width: number,
+  height: number,
+  params: ShapeParams
+): ShapeMask => {
+  const key = `${shapeType}-${width}-${height}-${JSON.stringify(params)}`;
+
+  const cached = maskCache.get(key);
+  if (cached) return cached;
+
+  const mask = createShapeMask(shapeType, width, height, params);
+  maskCache.set(key, mask);
+  return mask;
+};
+
+/**
+ * Hit and miss counts of the mask cache since the page loaded, with its
+ * current size and capacity.
+ */
+export const getMaskCacheStats = (): CacheStats => maskCache.getStats();
+
+/**
+ * A shape's mask after rotation and flipping, covering its oriented
+ * footprint (see `getShapeBounds` in `utils/pixel-shape`). Cached alongside the unrotated masks.
+ */
+export const getShapeMask = (
+  shape: Pick<ShapeData, 'type' | 'width' | 'height' | 'params' | 'orientation'>
+): ShapeMask => {
+  const key = `${shape.type}-${shape.width}-${shape.height}-${JSON.stringify(shape.params)}-${JSON.stringify(shape.orientation)}`;
+
+  const cached = maskCache.get(key);
+  if (cached) return cached;
+
+  const mask = orientMask(
+    getCachedMask(shape.type, shape.width, shape.height, shape.params),
+    shape.width,
+    shape.height,
+    shape.orientation
+  );
+  maskCache.set(key, mask);
+  return mask;
+};
+
+// Shape mask generators - delegates to the registered shape definition
+export const createShapeMask = (
+  shapeType: ShapeType,
+  width: number,
+  height: number,
+  params: ShapeParams
+): ShapeMask => {
+  if (width <= 0 || height <= 0) return createEmptyMask(0, 0);
+  return getShapeDefinition(shapeType).createMask(width, height, params);
+};
@@ -0,0 +1,68 @@
+// Shape masks packed one bit per pixel. Rows are padded to whole bytes,
+// with the leftmost pixel of each byte in its highest bit. Masks are read
+// and written only through these accessors, so the packing stays private.
+
+export interface ShapeMask {
+  readonly width: number;
+  readonly height: number;
+  /** Bytes per row */
+  readonly stride: number;
+  readonly bits: Uint8Array;
+}
+
+export const createEmptyMask = (width: number, height: number): ShapeMask => {
+  const maskWidth = Math.max(0, width);
+  const maskHeight = Math.max(0, height);
+  const stride = Math.ceil(maskWidth / 8);
+  return {
+    width: maskWidth,
+    height: maskHeight,
+    stride,
+    bits: new Uint8Array(stride * maskHeight),
+  };
+};
+
+/**
+ * Whether the pixel at integer coordinates is set. Pixels outside the
+ * mask are empty.
+ */
+export const getMaskPixel = (mask: ShapeMask, x: number, y: number): boolean =>
+  x >= 0 &&
+  y >= 0 &&
+  x < mask.width &&
+  y < mask.height &&
+  (mask.bits[y * mask.stride + (x >> 3)] & (0x80 >> (x & 7))) !== 0;
+
+/**
+ * Sets or clears the pixel at integer coordinates, ignoring any outside
+ * the mask.
+ */
+export const setMaskPixel = (
+  mask: ShapeMask,
+  x: number,
+  y: number,
+  value: boolean
+): void => {
+  if (x < 0 || y < 0 || x >= mask.width || y >= mask.height) return;
+
+  const index = y * mask.stride + (x >> 3);
+  const bit = 0x80 >> (x & 7);
+  mask.bits[index] = value ? mask.bits[index] | bit : mask.bits[index] & ~bit;
+};
+
+/**
+ * Builds a mask by asking `isSet` about every pixel, row by row.
+ */
+export const createMaskFrom = (
+  width: number,
+  height: number,
+  isSet: (x: number, y: number) => boolean
+): ShapeMask => {
+  const mask = createEmptyMask(width, height);
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      if (isSet(x, y)) setMaskPixel(mask, x, y, true);
+    }
+  }
+  return mask;
+};
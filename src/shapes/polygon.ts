@@ -0,0 +1,176 @@
+import type {
+  Point,
+  PolygonParams,
+  RotationParams,
+  StarParams,
+} from '../constants/pixel-shape';
+import {
+  isIntegerInRange,
+  isMaskEdgePixel,
+  isNumberInRange,
+  isPointInPolygon,
+  rasterizeMask,
+} from './geometry';
+import type { ShapeDefinition, ShapeParamField } from './registry';
+
+const SIDES_RANGE = { min: 3, max: 12 };
+const INNER_RADIUS_RANGE = { min: 0.1, max: 0.9 };
+const ROTATION_RANGE = { min: 0, max: 359 };
+
+/**
+ * Vertices on the unit circle, starting at the top and going clockwise.
+ * Alternating radii produce a star.
+ */
+const getUnitVertices = (
+  count: number,
+  rotation: number,
+  radii: number[] = [1]
+): Point[] => {
+  const start = ((rotation - 90) * Math.PI) / 180;
+  const vertices: Point[] = [];
+  for (let i = 0; i < count; i++) {
+    const angle = start + (i * 2 * Math.PI) / count;
+    const radius = radii[i % radii.length];
+    vertices.push({ x: Math.cos(angle) * radius, y: Math.sin(angle) * radius });
+  }
+  return vertices;
+};
+
+/**
+ * Stretches vertices so their bounds fill the shape's width and height.
+ */
+const fitToBounds = (vertices: Point[], width: number, height: number): Point[] => {
+  const xs = vertices.map((v) => v.x);
+  const ys = vertices.map((v) => v.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX || 1;
+  const spanY = Math.max(...ys) - minY || 1;
+
+  return vertices.map((v) => ({
+    x: ((v.x - minX) / spanX) * width,
+    y: ((v.y - minY) / spanY) * height,
+  }));
+};
+
+const rasterizePolygon = (width: number, height: number, unitVertices: Point[]) => {
+  const vertices = fitToBounds(unitVertices, width, height);
+  return rasterizeMask(width, height, (px, py) =>
+    isPointInPolygon(px, py, vertices)
+  );
+};
+
+// Turns the vertices inside the shape's bounds, while the Transform
+// card's rotation turns the whole shape, so the two are labelled apart
+const rotationField: ShapeParamField<RotationParams> = {
+  kind: 'number',
+  key: 'rotation',
+  label: 'Vertex Angle',
+  ...ROTATION_RANGE,
+  step: 1,
+  format: (value) => `${value}°`,
+};
+
+const isRotationParams = (params: unknown): params is RotationParams =>
+  typeof params === 'object' &&
+  params !== null &&
+  isNumberInRange(
+    (params as Record<string, unknown>).rotation,
+    ROTATION_RANGE.min,
+    ROTATION_RANGE.max
+  );
+
+export const triangleShape: ShapeDefinition<'triangle'> = {
+  type: 'triangle',
+  label: 'Triangle',
+  defaults: { width: 10, height: 10, params: { rotation: 0 } },
+  paramFields: [rotationField],
+  createMask: (width, height, { rotation }) =>
+    rasterizePolygon(width, height, getUnitVertices(3, rotation)),
+  isOutlinePixel: isMaskEdgePixel,
+  validateParams: isRotationParams,
+};
+
+export const diamondShape: ShapeDefinition<'diamond'> = {
+  type: 'diamond',
+  label: 'Diamond',
+  defaults: { width: 10, height: 10, params: { rotation: 0 } },
+  paramFields: [rotationField],
+  createMask: (width, height, { rotation }) =>
+    rasterizePolygon(width, height, getUnitVertices(4, rotation)),
+  isOutlinePixel: isMaskEdgePixel,
+  validateParams: isRotationParams,
+};
+
+export const polygonShape: ShapeDefinition<'polygon'> = {
+  type: 'polygon',
+  label: 'Polygon',
+  defaults: { width: 10, height: 10, params: { sides: 6, rotation: 0 } },
+  paramFields: [
+    {
+      kind: 'number',
+      key: 'sides',
+      label: 'Sides',
+      ...SIDES_RANGE,
+      step: 1,
+    },
+    rotationField,
+  ],
+  createMask: (width, height, { sides, rotation }) =>
+    rasterizePolygon(width, height, getUnitVertices(sides, rotation)),
+  isOutlinePixel: isMaskEdgePixel,
+  validateParams: (params): params is PolygonParams =>
+    isRotationParams(params) &&
+    isIntegerInRange(
+      (params as unknown as Record<string, unknown>).sides,
+      SIDES_RANGE.min,
+      SIDES_RANGE.max
+    ),
+};
+
+export const starShape: ShapeDefinition<'star'> = {
+  type: 'star',
+  label: 'Star',
+  defaults: {
+    width: 11,
+    height: 11,
+    params: { points: 5, innerRadiusRatio: 0.5, rotation: 0 },
+  },
+  paramFields: [
+    {
+      kind: 'number',
+      key: 'points',
+      label: 'Points',
+      ...SIDES_RANGE,
+      step: 1,
+    },
+    {
+      kind: 'number',
+      key: 'innerRadiusRatio',
+      label: 'Inner Radius',
+      ...INNER_RADIUS_RANGE,
+      step: 0.05,
+      format: (value) => `${Math.round(value * 100)}%`,
+    },
+    rotationField,
+  ],
+  createMask: (width, height, { points, innerRadiusRatio, rotation }) =>
+    rasterizePolygon(
+      width,
+      height,
+      getUnitVertices(points * 2, rotation, [1, innerRadiusRatio])
+    ),
+  isOutlinePixel: isMaskEdgePixel,
+  validateParams: (params): params is StarParams => {
+    if (!isRotationParams(params)) return false;
+    const p = params as unknown as Record<string, unknown>;
+    return (
+      isIntegerInRange(p.points, SIDES_RANGE.min, SIDES_RANGE.max) &&
+      isNumberInRange(
+        p.innerRadiusRatio,
+        INNER_RADIUS_RANGE.min,
+        INNER_RADIUS_RANGE.max
+      )
+    );
+  },
+};
@@ -0,0 +1,118 @@
+import type {
+  OutlineConnectivity,
+  Point,
+  ShapeParamsMap,
+  ShapeType,
+} from '../constants/pixel-shape';
+import type { ShapeMask } from './mask';
+
+export type ShapeParamValue = number | string | boolean | Point[];
+
+/**
+ * Describes how a single parameter is edited in the controls panel.
+ */
+export type ShapeParamField<P> =
+  | {
+      kind: 'number';
+      key: keyof P & string;
+      label: string;
+      min: number;
+      max: number;
+      step: number;
+      format?: (value: number) => string;
+    }
+  | {
+      kind: 'select';
+      key: keyof P & string;
+      label: string;
+      options: { value: string; label: string }[];
+    }
+  | {
+      kind: 'toggle';
+      key: keyof P & string;
+      label: string;
+    }
+  | {
+      kind: 'points';
+      key: keyof P & string;
+      label: string;
+      minPoints: number;
+      maxPoints: number;
+    };
+
+/**
+ * Everything the generator needs to know about a shape type.
+ * Register an entry with `registerShape` and the controls, mask cache,
+ * hit-testing and persistence pick it up automatically.
+ */
+export interface ShapeDefinition<T extends ShapeType = ShapeType> {
+  type: T;
+  /** Human-readable name shown in the UI */
+  label: string;
+  /**
+   * Whether the type is offered when adding shapes; false for types that
+   * are only built from other shapes
+   */
+  listed?: boolean;
+  /** Form values used when the shape type is picked */
+  defaults: { width: number; height: number; params: ShapeParamsMap[T] };
+  /** Editable parameters, in display order */
+  paramFields: ShapeParamField<ShapeParamsMap[T]>[];
+  /**
+   * For shapes whose extent follows from their parameters (e.g. vertices),
+   * returns the size; width and height are then not user-editable.
+   */
+  getSize?(params: ShapeParamsMap[T]): { width: number; height: number };
+  /** Point list parameter whose points are dragged as handles on the canvas */
+  handleParam?: keyof ShapeParamsMap[T] & string;
+  /** Rasterizes the shape into a `height` x `width` mask */
+  createMask(
+    width: number,
+    height: number,
+    params: ShapeParamsMap[T]
+  ): ShapeMask;
+  /**
+   * Decides which mask pixels belong to the outline. It is called on the
+   * mask after rotation and flipping, so it should follow the mask rather
+   * than the bounding box.
+   */
+  isOutlinePixel(
+    x: number,
+    y: number,
+    mask: ShapeMask,
+    width: number,
+    height: number,
+    connectivity: OutlineConnectivity
+  ): boolean;
+  /** Checks persisted parameters before they are loaded */
+  validateParams(params: unknown): params is ShapeParamsMap[T];
+}
+
+const definitions = new Map<ShapeType, ShapeDefinition>();
+
+export function registerShape<T extends ShapeType>(
+  definition: ShapeDefinition<T>
+): void {
+  definitions.set(definition.type, definition as unknown as ShapeDefinition);
+}
+
+export function getShapeDefinition<T extends ShapeType>(
+  type: T
+): ShapeDefinition<T> {
+  const definition = definitions.get(type);
+  if (!definition) {
+    throw new Error(`Unknown shape type: ${type}`);
+  }
+  return definition as unknown as ShapeDefinition<T>;
+}
+
+/**
+ * Returns all registered definitions in registration order.
+ */
+export function getShapeDefinitions(): ShapeDefinition[] {
+  return Array.from(definitions.values());
+}
+
+export function isShapeType(value: unknown): value is ShapeType {
+  return typeof value === 'string' && definitions.has(value as ShapeType);
+}
@@ -0,0 +1,57 @@
+import type { RingParams } from '../constants/pixel-shape';
+import {
+  createEllipseMask,
+  isEllipseRasterization,
+  rasterizationField,
+} from './ellipse-raster';
+import { isIntegerInRange, isMaskEdgePixel } from './geometry';
+import { createMaskFrom, getMaskPixel } from './mask';
+import type { ShapeDefinition } from './registry';
+
+const THICKNESS_RANGE = { min: 1, max: 50 };
+
+export const ringShape: ShapeDefinition<'ring'> = {
+  type: 'ring',
+  label: 'Ring',
+  defaults: { width: 12, height: 12, params: { thickness: 3, rasterization: 'center' } },
+  paramFields: [
+    {
+      kind: 'number',
+      key: 'thickness',
+      label: 'Thickness',
+      ...THICKNESS_RANGE,
+      step: 1,
+      format: (value) => `${value}px`,
+    },
+    rasterizationField,
+  ],
+  createMask: (width, height, { thickness, rasterization }) => {
+    const outer = createEllipseMask(width, height, rasterization);
+    // The hole is the same strategy's ellipse inset by the band, so the
+    // ring keeps its symmetry. A band thicker than the radius leaves no hole
+    const inner = createEllipseMask(
+      width - 2 * thickness,
+      height - 2 * thickness,
+      rasterization
+    );
+
+    return createMaskFrom(
+      width,
+      height,
+      (x, y) =>
+        getMaskPixel(outer, x, y) &&
+        !getMaskPixel(inner, x - thickness, y - thickness)
+    );
+  },
+  // The hole's pixels count as empty neighbours, so the edge rule traces
+  // the inner rim as its own outline alongside the outer one
+  isOutlinePixel: isMaskEdgePixel,
+  validateParams: (params): params is RingParams => {
+    if (typeof params !== 'object' || params === null) return false;
+    const p = params as Record<string, unknown>;
+    return (
+      isIntegerInRange(p.thickness, THICKNESS_RANGE.min, THICKNESS_RANGE.max) &&
+      isEllipseRasterization(p.rasterization)
+    );
+  },
+};
@@ -1,7 +1,63 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import type { ShapeData, ShapeType } from '../constants/pixel-shape';
-import { MAX_ZOOM, MIN_ZOOM } from '../constants/pixel-shape';
+import type {
+  BitmapTool,
+  BlendMode,
+  BooleanOperation,
+  ColorRampOptions,
+  FillGradient,
+  FillMode,
+  FillPattern,
+  OutlineStyle,
+  PaletteEntry,
+  Point,
+  Shading,
+  ShapeBase,
+  ShapeData,
+  ShapeOrientation,
+  RendererMode,
+  ShapeParams,
+  ShapeType,
+} from '../constants/pixel-shape';
+import {
+  DEFAULT_COLOR_RAMP,
+  DEFAULT_FILL_GRADIENT,
+  DEFAULT_FILL_PATTERN,
+  DEFAULT_ORIENTATION,
+  DEFAULT_OUTLINE_STYLE,
+  DEFAULT_SHADING,
+  MAX_ZOOM,
+  MIN_ZOOM,
+} from '../constants/pixel-shape';
+import type { PaletteLock } from '../constants/palettes';
+import {
+  anchorChildren,
+  decodeBitmap,
+  encodeBitmap,
+  floodFillMask,
+  getShapeDefinition,
+  type ShapeParamValue,
+} from '../shapes';
+import { shiftToOrigin } from '../shapes/geometry';
+import { getMaskPixel, setMaskPixel } from '../shapes/mask';
+import { normalizeColor } from '../utils/css-color';
+import {
+  applyPalette,
+  getLockedColors,
+  getNextPaletteId,
+  snapShapeColors,
+  snapToPalette,
+} from '../utils/palette';
+import {
+  getShapeBounds,
+  getShapeHandles,
+  getShapeMask,
+} from '../utils/pixel-shape';
+import {
+  getOrientedFootprint,
+  orientPoint,
+  unorientPoint,
+} from '../utils/shape-orientation';
 
 // ============================================================================
 // Types
@@ -16,13 +72,34 @@ interface WorkspaceState {
   // Shape state (normalized for O(1) lookups)
   shapeState: NormalizedShapes;
   selectedShapeId: number | null;
+  /** Shapes ticked in the shape list for a boolean operation */
+  combineShapeIds: number[];
+  /** Active tool for editing the selected custom bitmap shape */
+  bitmapTool: BitmapTool | null;
+  /** Options of the colour ramp picker */
+  rampOptions: ColorRampOptions;
+  /** Document palette that shape colours can be linked to */
+  palette: PaletteEntry[];
+  /** Palette every shape colour is restricted to, if any */
+  paletteLock: PaletteLock | null;
 
   // Form state
   currentShapeType: ShapeType;
   formWidth: number | null;
   formHeight: number | null;
   formBaseColor: string;
+  formBaseColorRef: number | null;
+  formOutlineColor: string | null;
+  formOutlineColorRef: number | null;
+  formOutlineStyle: OutlineStyle;
+  formOrientation: ShapeOrientation;
+  formFillMode: FillMode;
+  formFillPattern: FillPattern;
+  formFillGradient: FillGradient;
+  formShading: Shading;
   formOpacity: number;
+  formBlendMode: BlendMode;
+  formParams: ShapeParams;
 
   // View state
   zoom: number;
@@ -31,6 +108,7 @@ interface WorkspaceState {
   // UI state
   isControlsPanelOpen: boolean;
   isShapeListOpen: boolean;
+  rendererMode: RendererMode;
 }
 
 interface WorkspaceActions {
@@ -39,8 +117,24 @@ interface WorkspaceActions {
   updateSelectedShape: () => boolean;
   removeShape: (id: number) => void;
   moveShape: (id: number, position: { x: number; y: number }) => void;
+  moveShapeHandle: (id: number, index: number, point: Point) => void;
   moveShapeLayer: (shapeId: number, direction: string) => void;
   reorderShapes: (fromIndex: number, toIndex: number) => void;
+  toggleCombineShape: (id: number) => void;
+  combineShapes: (operation: BooleanOperation) => boolean;
+  separateShape: (id: number) => void;
+  convertToBitmap: (id: number) => void;
+  paintShapePixels: (id: number, points: Point[]) => void;
+  setBitmapTool: (tool: BitmapTool | null) => void;
+  setRampOptions: (options: Partial<ColorRampOptions>) => void;
+
+  // Palette actions
+  /** Returns the new entry's id, or null if `color` is not a colour */
+  addPaletteColor: (color: string, name?: string) => number | null;
+  addPaletteColors: (colors: Omit<PaletteEntry, 'id'>[]) => number;
+  updatePaletteColor: (id: number, color: string) => void;
+  removePaletteColor: (id: number) => void;
+  setPaletteLock: (lock: PaletteLock | null) => void;
 
   // Selection
   setSelectedShapeId: (id: number | null) => void;
@@ -51,7 +145,18 @@ interface WorkspaceActions {
   setFormWidth: (width: number | null) => void;
   setFormHeight: (height: number | null) => void;
   setFormBaseColor: (color: string) => void;
+  setFormOutlineColor: (color: string | null) => void;
+  setFormBaseColorRef: (id: number | null) => void;
+  setFormOutlineColorRef: (id: number | null) => void;
+  setFormOutlineStyle: (style: Partial<OutlineStyle>) => void;
+  setFormOrientation: (orientation: Partial<ShapeOrientation>) => void;
+  setFormFillMode: (mode: FillMode) => void;
+  setFormFillPattern: (pattern: Partial<FillPattern>) => void;
+  setFormFillGradient: (gradient: Partial<FillGradient>) => void;
+  setFormShading: (shading: Partial<Shading>) => void;
   setFormOpacity: (opacity: number) => void;
+  setFormBlendMode: (mode: BlendMode) => void;
+  setFormParam: (key: string, value: ShapeParamValue) => void;
 
   // View actions
   setZoom: (zoom: number) => void;
@@ -64,6 +169,7 @@ interface WorkspaceActions {
   setShapeListOpen: (open: boolean) => void;
   toggleControlsPanel: () => void;
   toggleShapeList: () => void;
+  setRendererMode: (mode: RendererMode) => void;
 
   // Hydration
   hydrate: (data: Partial<PersistedWorkspace>) => void;
@@ -74,8 +180,11 @@ export interface PersistedWorkspace {
   shapes: ShapeData[];
   zoom: number;
   canvasOffset: { x: number; y: number };
+  palette: PaletteEntry[];
+  paletteLock: PaletteLock | null;
   isControlsPanelOpen: boolean;
   isShapeListOpen: boolean;
+  rendererMode: RendererMode;
 }
 
 // ============================================================================
@@ -98,10 +207,209 @@ function denormalizeShapes(state: NormalizedShapes): ShapeData[] {
   return state.ids.map((id) => state.entities[id]);
 }
 
+/**
+ * Finds a shape by id, including shapes nested inside composites.
+ */
+function findShape(shapes: ShapeData[], id: number): ShapeData | undefined {
+  for (const shape of shapes) {
+    if (shape.id === id) return shape;
+    if (shape.type === 'composite') {
+      const child = findShape(shape.params.children, id);
+      if (child) return child;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether the bitmap tools can paint a shape: only top-level custom
+ * shapes, as painting maps canvas pixels through the shape's own
+ * position and orientation alone.
+ */
+function isPaintableShape(state: NormalizedShapes, id: number | null): boolean {
+  return id !== null && state.entities[id]?.type === 'custom';
+}
+
+/**
+ * Applies `update` to the shape with the given id wherever it is nested.
+ * Composites along the way are re-anchored to their children's new bounds.
+ */
+function updateShapeInTree(
+  shape: ShapeData,
+  id: number,
+  update: (shape: ShapeData) => ShapeData
+): ShapeData {
+  if (shape.id === id) return update(shape);
+  if (shape.type !== 'composite') return shape;
+
+  const updated = shape.params.children.map((child) =>
+    updateShapeInTree(child, id, update)
+  );
+  if (updated.every((child, i) => child === shape.params.children[i])) {
+    return shape;
+  }
+
+  const { offset, children } = anchorChildren(updated);
+  const params = { ...shape.params, children };
+  return {
+    ...shape,
+    ...getShapeDefinition('composite').getSize!(params),
+    params,
+    position: {
+      x: shape.position.x + offset.x,
+      y: shape.position.y + offset.y,
+    },
+  };
+}
+
+/**
+ * Recolours every shape linked to the palette, keeping unchanged shapes.
+ */
+function applyPaletteToShapes(
+  state: NormalizedShapes,
+  palette: PaletteEntry[]
+): NormalizedShapes {
+  const entities = { ...state.entities };
+  for (const id of state.ids) {
+    entities[id] = applyPalette(entities[id], palette);
+  }
+  return { ...state, entities };
+}
+
 function clamp(value: number, min: number, max: number): number {
   return Math.max(min, Math.min(max, value));
 }
 
+const DEFAULT_SHAPE_TYPE: ShapeType = 'ellipse';
+
+/**
+ * Shape fields as entered in the form, or null if the size is invalid.
+ * Colours are snapped to the locked palette, if there is one.
+ */
+function getFormShapeFields(
+  state: WorkspaceState
+): Omit<ShapeBase, 'id' | 'position'> | null {
+  const { formWidth, formHeight } = state;
+  if (formWidth === null || formWidth <= 0 || formHeight === null || formHeight <= 0) {
+    return null;
+  }
+
+  const snap = (color: string) => snapFormColor(state, color);
+  return {
+    width: formWidth,
+    height: formHeight,
+    baseColor: snap(state.formBaseColor),
+    baseColorRef: state.formBaseColorRef,
+    outlineColor:
+      state.formOutlineColor === null ? null : snap(state.formOutlineColor),
+    outlineColorRef: state.formOutlineColorRef,
+    outlineStyle: state.formOutlineStyle,
+    orientation: state.formOrientation,
+    fillMode: state.formFillMode,
+    fillPattern: {
+      ...state.formFillPattern,
+      color: snap(state.formFillPattern.color),
+    },
+    fillGradient: {
+      ...state.formFillGradient,
+      color: snap(state.formFillGradient.color),
+    },
+    shading: state.formShading,
+    opacity: state.formOpacity,
+    blendMode: state.formBlendMode,
+  };
+}
+
+/**
+ * Snaps a colour to the locked palette, or returns it as is when the
+ * document isn't locked.
+ */
+function snapFormColor(
+  state: Pick<WorkspaceState, 'paletteLock' | 'palette'>,
+  color: string
+): string {
+  const colors = getLockedColors(state.paletteLock, state.palette);
+  return colors ? snapToPalette(color, colors) : color;
+}
+
+/**
+ * Snaps every stored shape colour and the form colours to the locked
+ * palette, for whenever the lock or the colours it allows change.
+ * Derived colours such as shading are snapped when drawn.
+ */
+function snapToLock(state: WorkspaceState): Partial<WorkspaceState> {
+  const colors = getLockedColors(state.paletteLock, state.palette);
+  if (!colors) return {};
+
+  const entities = { ...state.shapeState.entities };
+  for (const id of state.shapeState.ids) {
+    entities[id] = snapShapeColors(entities[id], colors);
+  }
+  const snap = (color: string) => snapToPalette(color, colors);
+  return {
+    shapeState: { ...state.shapeState, entities },
+    formBaseColor: snap(state.formBaseColor),
+    formOutlineColor:
+      state.formOutlineColor === null ? null : snap(state.formOutlineColor),
+    formFillPattern: {
+      ...state.formFillPattern,
+      color: snap(state.formFillPattern.color),
+    },
+    formFillGradient: {
+      ...state.formFillGradient,
+      color: snap(state.formFillGradient.color),
+    },
+  };
+}
+
+/**
+ * A colour entered in any CSS syntax, in canonical form and snapped to
+ * the locked palette. Null if it is not a colour, which leaves the form
+ * unchanged.
+ */
+function toFormColor(
+  state: Pick<WorkspaceState, 'paletteLock' | 'palette'>,
+  color: string
+): string | null {
+  const normalized = normalizeColor(color);
+  return normalized === null ? null : snapFormColor(state, normalized);
+}
+
+/**
+ * Form params, plus the form size for shapes whose size follows from them.
+ */
+function withDerivedSize(type: ShapeType, params: ShapeParams) {
+  const size = getShapeDefinition(type).getSize?.(params);
+  return size
+    ? { formParams: params, formWidth: size.width, formHeight: size.height }
+    : { formParams: params };
+}
+
+/**
+ * Form values for a fresh shape, taken from the default shape definition.
+ */
+function getDefaultForm() {
+  const { defaults } = getShapeDefinition(DEFAULT_SHAPE_TYPE);
+  return {
+    currentShapeType: DEFAULT_SHAPE_TYPE,
+    formWidth: defaults.width,
+    formHeight: defaults.height,
+    formBaseColor: '#007bff',
+    formBaseColorRef: null,
+    formOutlineColor: null,
+    formOutlineColorRef: null,
+    formOutlineStyle: { ...DEFAULT_OUTLINE_STYLE },
+    formOrientation: { ...DEFAULT_ORIENTATION },
+    formFillMode: 'outline' as FillMode,
+    formFillPattern: { ...DEFAULT_FILL_PATTERN },
+    formFillGradient: { ...DEFAULT_FILL_GRADIENT },
+    formShading: { ...DEFAULT_SHADING },
+    formOpacity: 1,
+    formBlendMode: 'normal' as BlendMode,
+    formParams: defaults.params as ShapeParams,
+  };
+}
+
 // ============================================================================
 // Store
 // ============================================================================
@@ -109,15 +417,17 @@ function clamp(value: number, min: number, max: number): number {
 const DEFAULT_STATE: WorkspaceState = {
   shapeState: { ids: [], entities: {} },
   selectedShapeId: null,
-  currentShapeType: 'ellipse',
-  formWidth: 10,
-  formHeight: 10,
-  formBaseColor: '#007BFF',
-  formOpacity: 1,
+  combineShapeIds: [],
+  bitmapTool: null,
+  rampOptions: DEFAULT_COLOR_RAMP,
+  palette: [],
+  paletteLock: null,
+  ...getDefaultForm(),
   zoom: 10,
   canvasOffset: { x: 0, y: 0 },
   isControlsPanelOpen: false,
   isShapeListOpen: false,
+  rendererMode: 'dom',
 };
 
 export const useWorkspaceStore = create<WorkspaceState & WorkspaceActions>()(
@@ -129,22 +439,19 @@ export const useWorkspaceStore = create<WorkspaceState & WorkspaceActions>()(
     // ========================================================================
 
     addShape: (position) => {
-      const { formWidth, formHeight, formBaseColor, formOpacity, currentShapeType } = get();
-
-      if (formWidth === null || formWidth <= 0 || formHeight === null || formHeight <= 0) {
-        return false;
-      }
+      const state = get();
+      const fields = getFormShapeFields(state);
+      if (!fields) return false;
 
       const newShapeId = Date.now();
-      const newShape: ShapeData = {
+      // The form keeps type and params in sync, so the pairing is safe
+      const newShape = {
+        ...fields,
         id: newShapeId,
-        type: currentShapeType,
-        width: formWidth,
-        height: formHeight,
-        baseColor: formBaseColor,
-        opacity: formOpacity,
+        type: state.currentShapeType,
+        params: state.formParams,
         position: { x: Math.round(position.x), y: Math.round(position.y) },
-      };
+      } as ShapeData;
 
       set((state) => ({
         shapeState: {
@@ -153,49 +460,42 @@ export const useWorkspaceStore = create<WorkspaceState & WorkspaceActions>()(
         },
         // Reset form after adding
         selectedShapeId: null,
-        currentShapeType: 'ellipse',
-        formWidth: 10,
-        formHeight: 10,
-        formBaseColor: '#007BFF',
-        formOpacity: 1,
+        bitmapTool: null,
+        ...getDefaultForm(),
       }));
 
       return true;
     },
 
     updateSelectedShape: () => {
-      const { selectedShapeId, formWidth, formHeight, formBaseColor, formOpacity } = get();
+      const { selectedShapeId, formParams } = get();
+      const fields = getFormShapeFields(get());
 
       if (!selectedShapeId) return false;
-      if (formWidth === null || formWidth <= 0 || formHeight === null || formHeight <= 0) {
-        return false;
-      }
+      if (!fields) return false;
 
       set((state) => {
-        const existingShape = state.shapeState.entities[selectedShapeId];
-        if (!existingShape) return state;
+        const shapes = denormalizeShapes(state.shapeState);
+        if (!findShape(shapes, selectedShapeId)) return state;
+
+        // The selected shape may be a composite's child, in which case the
+        // composite is updated around it
+        const entities = { ...state.shapeState.entities };
+        for (const shape of shapes) {
+          entities[shape.id] = updateShapeInTree(
+            shape,
+            selectedShapeId,
+            (existingShape) =>
+              ({ ...existingShape, ...fields, params: formParams }) as ShapeData
+          );
+        }
 
         return {
-          shapeState: {
-            ...state.shapeState,
-            entities: {
-              ...state.shapeState.entities,
-              [selectedShapeId]: {
-                ...existingShape,
-                width: formWidth,
-                height: formHeight,
-                baseColor: formBaseColor,
-                opacity: formOpacity,
-              },
-            },
-          },
+          shapeState: { ...state.shapeState, entities },
           // Reset form after updating
           selectedShapeId: null,
-          currentShapeType: 'ellipse',
-          formWidth: 10,
-          formHeight: 10,
-          formBaseColor: '#007BFF',
-          formOpacity: 1,
+          bitmapTool: null,
+          ...getDefaultForm(),
         };
       });
 
@@ -219,6 +519,11 @@ export const useWorkspaceStore = create<WorkspaceState & WorkspaceActions>()(
             entities: remainingEntities,
           },
           selectedShapeId: newSelectedId,
+          bitmapTool:
+            newSelectedId === state.selectedShapeId ? state.bitmapTool : null,
+          combineShapeIds: state.combineShapeIds.filter(
+            (shapeId) => shapeId !== id
+          ),
         };
       });
     },
@@ -240,6 +545,72 @@ export const useWorkspaceStore = create<WorkspaceState & WorkspaceActions>()(
       });
     },
 
+    moveShapeHandle: (id, index, point) => {
+      set((state) => {
+        const existingShape = state.shapeState.entities[id];
+        if (!existingShape) return state;
+
+        const definition = getShapeDefinition(existingShape.type);
+        if (!definition.handleParam) return state;
+
+        // Handle points live in the unrotated shape, so map the dragged
+        // point back into it, then shift the points to start at the origin
+        const { width, height, orientation, position } = existingShape;
+        const moved = unorientPoint(
+          { x: point.x - position.x, y: point.y - position.y },
+          width,
+          height,
+          orientation
+        );
+        const points = shiftToOrigin(
+          (existingShape.params as Record<string, Point[]>)[definition.handleParam]
+        ).map((handle, i) => (i === index ? moved : handle));
+        const shifted = shiftToOrigin(points);
+        const params = {
+          ...existingShape.params,
+          [definition.handleParam]: shifted,
+        } as ShapeParams;
+        // A handle dragged past the shape's coordinate limit stays where it
+        // was, as the params would be dropped when the workspace reloads
+        if (!definition.validateParams(params)) return state;
+        const size = definition.getSize?.(params) ?? { width, height };
+
+        // Re-anchor the shape so another handle stays put on the canvas
+        const anchorIndex = index === 0 ? 1 : 0;
+        const anchor = getShapeHandles(existingShape)[anchorIndex];
+        const orientedAnchor = orientPoint(
+          shifted[anchorIndex],
+          size.width,
+          size.height,
+          orientation
+        );
+
+        return {
+          shapeState: {
+            ...state.shapeState,
+            entities: {
+              ...state.shapeState.entities,
+              [id]: {
+                ...existingShape,
+                ...size,
+                params,
+                position: {
+                  x: anchor.x - orientedAnchor.x,
+                  y: anchor.y - orientedAnchor.y,
+                },
+              } as ShapeData,
+            },
+          },
+          // Keep the form in sync while the shape is being edited
+          ...(state.selectedShapeId === id && {
+            formParams: params,
+            formWidth: size.width,
+            formHeight: size.height,
+          }),
+        };
+      });
+    },
+
     moveShapeLayer: (shapeId, direction) => {
       set((state) => {
         const currentIndex = state.shapeState.ids.indexOf(shapeId);
@@ -286,13 +657,281 @@ export const useWorkspaceStore = create<WorkspaceState & WorkspaceActions>()(
       });
     },
 
+    toggleCombineShape: (id) => {
+      set((state) => ({
+        combineShapeIds: state.combineShapeIds.includes(id)
+          ? state.combineShapeIds.filter((shapeId) => shapeId !== id)
+          : [...state.combineShapeIds, id],
+      }));
+    },
+
+    combineShapes: (operation) => {
+      const { shapeState, combineShapeIds } = get();
+      // Children keep their layer order, bottom first
+      const ids = shapeState.ids.filter((id) => combineShapeIds.includes(id));
+      if (ids.length < 2) return false;
+
+      const members = ids.map((id) => shapeState.entities[id]);
+      const { offset, children } = anchorChildren(members);
+      const params = { operation, children };
+      const base = members[0];
+      // The composite takes its appearance from the bottom shape
+      const composite: ShapeData = {
+        id: Date.now(),
+        type: 'composite',
+        ...getShapeDefinition('composite').getSize!(params),
+        baseColor: base.baseColor,
+        baseColorRef: base.baseColorRef,
+        outlineColor: base.outlineColor,
+        outlineColorRef: base.outlineColorRef,
+        outlineStyle: base.outlineStyle,
+        orientation: { ...DEFAULT_ORIENTATION },
+        fillMode: base.fillMode,
+        fillPattern: base.fillPattern,
+        fillGradient: base.fillGradient,
+        shading: base.shading,
+        opacity: base.opacity,
+        blendMode: base.blendMode,
+        params,
+        position: offset,
+      };
+
+      set((state) => {
+        const { ids: allIds, entities } = state.shapeState;
+        // The composite takes the place of its topmost child
+        const topIndex = allIds.indexOf(ids[ids.length - 1]);
+        const newIds = allIds.flatMap((id, index) =>
+          index === topIndex ? [composite.id] : ids.includes(id) ? [] : [id]
+        );
+        const newEntities: Record<number, ShapeData> = {
+          [composite.id]: composite,
+        };
+        for (const id of newIds) {
+          if (id !== composite.id) newEntities[id] = entities[id];
+        }
+
+        return {
+          shapeState: { ids: newIds, entities: newEntities },
+          combineShapeIds: [],
+          selectedShapeId: null,
+          bitmapTool: null,
+          ...getDefaultForm(),
+        };
+      });
+
+      return true;
+    },
+
+    separateShape: (id) => {
+      set((state) => {
+        const composite = state.shapeState.entities[id];
+        if (!composite || composite.type !== 'composite') return state;
+
+        // Children go back to world positions in the composite's layer slot
+        const children = composite.params.children.map((child) => ({
+          ...child,
+          position: {
+            x: composite.position.x + child.position.x,
+            y: composite.position.y + child.position.y,
+          },
+        }));
+        const { [id]: _, ...entities } = state.shapeState.entities;
+        for (const child of children) entities[child.id] = child;
+
+        return {
+          shapeState: {
+            ids: state.shapeState.ids.flatMap((shapeId) =>
+              shapeId === id ? children.map((child) => child.id) : [shapeId]
+            ),
+            entities,
+          },
+          selectedShapeId: null,
+          bitmapTool: null,
+          ...getDefaultForm(),
+        };
+      });
+    },
+
+    convertToBitmap: (id) => {
+      set((state) => {
+        const entities = { ...state.shapeState.entities };
+        // Rotation and flipping are baked into the bitmap, so the shape
+        // moves to its oriented footprint
+        for (const shapeId of state.shapeState.ids) {
+          entities[shapeId] = updateShapeInTree(entities[shapeId], id, (shape) => {
+            const footprint = getOrientedFootprint(
+              shape.width,
+              shape.height,
+              shape.orientation
+            );
+            return {
+              ...shape,
+              type: 'custom',
+              width: footprint.width,
+              height: footprint.height,
+              orientation: { ...DEFAULT_ORIENTATION },
+              params: {
+                bitmapWidth: footprint.width,
+                bitmapHeight: footprint.height,
+                bitmap: encodeBitmap(getShapeMask(shape)),
+              },
+              position: {
+                x: shape.position.x + footprint.offsetX,
+                y: shape.position.y + footprint.offsetY,
+              },
+            };
+          });
+        }
+
+        return { shapeState: { ...state.shapeState, entities } };
+      });
+
+      // Keep the form in sync while the shape is being edited
+      if (get().selectedShapeId === id) get().setSelectedShapeId(id);
+    },
+
+    paintShapePixels: (id, points) => {
+      set((state) => {
+        const shape = state.shapeState.entities[id];
+        if (!shape || shape.type !== 'custom' || !state.bitmapTool) return state;
+
+        const { bitmapWidth, bitmapHeight, bitmap } = shape.params;
+        const mask = decodeBitmap(bitmap, bitmapWidth, bitmapHeight);
+        // Points are world pixels; the bitmap may be rotated or flipped
+        const pixels = points.map((point) =>
+          unorientPoint(
+            { x: point.x - shape.position.x, y: point.y - shape.position.y },
+            shape.width,
+            shape.height,
+            shape.orientation
+          )
+        );
+
+        if (state.bitmapTool === 'fill') {
+          // Filling a set pixel clears its region, so holes can be opened
+          const [start] = pixels;
+          const value = !getMaskPixel(mask, start.x, start.y);
+          if (!floodFillMask(mask, start, value)) return state;
+        } else {
+          const value = state.bitmapTool === 'pencil';
+          for (const { x, y } of pixels) {
+            setMaskPixel(mask, x, y, value);
+          }
+        }
+
+        const encoded = encodeBitmap(mask);
+        if (encoded === bitmap) return state;
+
+        const params = { ...shape.params, bitmap: encoded };
+        return {
+          shapeState: {
+            ...state.shapeState,
+            entities: {
+              ...state.shapeState.entities,
+              [id]: { ...shape, params },
+            },
+          },
+          ...(state.selectedShapeId === id && { formParams: params }),
+        };
+      });
+    },
+
+    setBitmapTool: (tool) =>
+      set((state) => ({
+        bitmapTool: isPaintableShape(state.shapeState, state.selectedShapeId)
+          ? tool
+          : null,
+      })),
+    setRampOptions: (options) =>
+      set((state) => ({ rampOptions: { ...state.rampOptions, ...options } })),
+
+    // ========================================================================
+    // Palette actions
+    // ========================================================================
+
+    addPaletteColor: (color, name = '') => {
+      const normalized = normalizeColor(color);
+      if (normalized === null) return null;
+
+      const id = getNextPaletteId(get().palette);
+      set((state) => {
+        const palette = [...state.palette, { id, name, color: normalized }];
+        return { palette, ...snapToLock({ ...state, palette }) };
+      });
+      return id;
+    },
+
+    // Colours already in the palette, and anything that isn't a colour,
+    // are skipped
+    addPaletteColors: (colors) => {
+      const { palette } = get();
+      const existing = new Set(palette.map((entry) => entry.color));
+      let nextId = getNextPaletteId(palette);
+      const added: PaletteEntry[] = [];
+      for (const { name, color } of colors) {
+        const normalized = normalizeColor(color);
+        if (normalized === null || existing.has(normalized)) continue;
+        existing.add(normalized);
+        added.push({ id: nextId++, name, color: normalized });
+      }
+
+      set((state) => {
+        const updated = [...palette, ...added];
+        return { palette: updated, ...snapToLock({ ...state, palette: updated }) };
+      });
+      return added.length;
+    },
+
+    // Under a document lock, shapes that used an edited or removed colour
+    // snap to what the palette now allows
+    updatePaletteColor: (id, text) => {
+      const color = normalizeColor(text);
+      if (color === null) return;
+
+      set((state) => {
+        const palette = state.palette.map((entry) =>
+          entry.id === id ? { ...entry, color } : entry
+        );
+        const updated = {
+          palette,
+          shapeState: applyPaletteToShapes(state.shapeState, palette),
+          ...(state.formBaseColorRef === id && { formBaseColor: color }),
+          ...(state.formOutlineColorRef === id && { formOutlineColor: color }),
+        };
+        return { ...updated, ...snapToLock({ ...state, ...updated }) };
+      });
+    },
+
+    // Linked shapes keep the colour they had, unless it is locked out
+    removePaletteColor: (id) => {
+      set((state) => {
+        const palette = state.palette.filter((entry) => entry.id !== id);
+        const updated = {
+          palette,
+          shapeState: applyPaletteToShapes(state.shapeState, palette),
+          ...(state.formBaseColorRef === id && { formBaseColorRef: null }),
+          ...(state.formOutlineColorRef === id && { formOutlineColorRef: null }),
+        };
+        return { ...updated, ...snapToLock({ ...state, ...updated }) };
+      });
+    },
+
+    setPaletteLock: (lock) => {
+      set((state) => ({
+        paletteLock: lock,
+        ...snapToLock({ ...state, paletteLock: lock }),
+      }));
+    },
+
     // ========================================================================
     // Selection
     // ========================================================================
 
     setSelectedShapeId: (id) => {
       const state = get();
-      const shape = id ? state.shapeState.entities[id] : null;
+      const shape = id
+        ? findShape(denormalizeShapes(state.shapeState), id)
+        : null;
 
       if (shape) {
         // Sync form with selected shape
@@ -301,22 +940,35 @@ export const useWorkspaceStore = create<WorkspaceState & WorkspaceActions>()(
           formWidth: shape.width,
           formHeight: shape.height,
           formBaseColor: shape.baseColor,
+          formBaseColorRef: shape.baseColorRef,
+          formOutlineColor: shape.outlineColor,
+          formOutlineColorRef: shape.outlineColorRef,
+          formOutlineStyle: shape.outlineStyle,
+          formOrientation: shape.orientation,
+          formFillMode: shape.fillMode,
+          formFillPattern: shape.fillPattern,
+          formFillGradient: shape.fillGradient,
+          formShading: shape.shading,
           formOpacity: shape.opacity,
+          formBlendMode: shape.blendMode,
+          formParams: shape.params,
           currentShapeType: shape.type,
+          // A tool left on would paint nothing, then surprise on the next
+          // custom shape selected
+          bitmapTool: isPaintableShape(state.shapeState, id)
+            ? state.bitmapTool
+            : null,
         });
       } else {
-        set({ selectedShapeId: null });
+        set({ selectedShapeId: null, bitmapTool: null });
       }
     },
 
     resetFormToDefaults: () => {
       set({
         selectedShapeId: null,
-        currentShapeType: 'ellipse',
-        formWidth: 10,
-        formHeight: 10,
-        formBaseColor: '#007BFF',
-        formOpacity: 1,
+        bitmapTool: null,
+        ...getDefaultForm(),
       });
     },
 
@@ -324,11 +976,81 @@ export const useWorkspaceStore = create<WorkspaceState & WorkspaceActions>()(
     // Form actions
     // ========================================================================
 
-    setCurrentShapeType: (type) => set({ currentShapeType: type }),
+    setCurrentShapeType: (type) =>
+      set({
+        currentShapeType: type,
+        ...withDerivedSize(type, getShapeDefinition(type).defaults.params),
+      }),
     setFormWidth: (width) => set({ formWidth: width }),
     setFormHeight: (height) => set({ formHeight: height }),
-    setFormBaseColor: (color) => set({ formBaseColor: color }),
+    // Picking a colour directly unlinks it from the palette
+    setFormBaseColor: (color) =>
+      set((state) => {
+        const formBaseColor = toFormColor(state, color);
+        return formBaseColor === null
+          ? {}
+          : { formBaseColor, formBaseColorRef: null };
+      }),
+    setFormOutlineColor: (color) =>
+      set((state) => {
+        const formOutlineColor = color === null ? null : toFormColor(state, color);
+        return color !== null && formOutlineColor === null
+          ? {}
+          : { formOutlineColor, formOutlineColorRef: null };
+      }),
+    setFormBaseColorRef: (id) =>
+      set((state) => {
+        const entry = state.palette.find((e) => e.id === id);
+        return entry
+          ? { formBaseColor: entry.color, formBaseColorRef: id }
+          : { formBaseColorRef: null };
+      }),
+    setFormOutlineColorRef: (id) =>
+      set((state) => {
+        const entry = state.palette.find((e) => e.id === id);
+        return entry
+          ? { formOutlineColor: entry.color, formOutlineColorRef: id }
+          : { formOutlineColorRef: null };
+      }),
+    setFormOutlineStyle: (style) =>
+      set((state) => ({
+        formOutlineStyle: { ...state.formOutlineStyle, ...style },
+      })),
+    setFormOrientation: (orientation) =>
+      set((state) => ({
+        formOrientation: { ...state.formOrientation, ...orientation },
+      })),
+    setFormFillMode: (mode) => set({ formFillMode: mode }),
+    setFormFillPattern: (pattern) =>
+      set((state) => {
+        const color = toFormColor(state, pattern.color ?? state.formFillPattern.color);
+        return color === null
+          ? {}
+          : { formFillPattern: { ...state.formFillPattern, ...pattern, color } };
+      }),
+    setFormFillGradient: (gradient) =>
+      set((state) => {
+        const color = toFormColor(
+          state,
+          gradient.color ?? state.formFillGradient.color
+        );
+        return color === null
+          ? {}
+          : { formFillGradient: { ...state.formFillGradient, ...gradient, color } };
+      }),
+    setFormShading: (shading) =>
+      set((state) => ({
+        formShading: { ...state.formShading, ...shading },
+      })),
     setFormOpacity: (opacity) => set({ formOpacity: opacity }),
+    setFormBlendMode: (mode) => set({ formBlendMode: mode }),
+    setFormParam: (key, value) =>
+      set((state) =>
+        withDerivedSize(state.currentShapeType, {
+          ...state.formParams,
+          [key]: value,
+        } as ShapeParams)
+      ),
 
     // ========================================================================
     // View actions
@@ -358,10 +1080,11 @@ export const useWorkspaceStore = create<WorkspaceState & WorkspaceActions>()(
         let maxY = -Infinity;
 
         for (const shape of shapes) {
-          minX = Math.min(minX, shape.position.x);
-          minY = Math.min(minY, shape.position.y);
-          maxX = Math.max(maxX, shape.position.x + shape.width);
-          maxY = Math.max(maxY, shape.position.y + shape.height);
+          const bounds = getShapeBounds(shape);
+          minX = Math.min(minX, bounds.x);
+          minY = Math.min(minY, bounds.y);
+          maxX = Math.max(maxX, bounds.x + bounds.width);
+          maxY = Math.max(maxY, bounds.y + bounds.height);
         }
 
         const worldW = maxX - minX;
@@ -400,23 +1123,37 @@ export const useWorkspaceStore = create<WorkspaceState & WorkspaceActions>()(
       set((state) => ({ isControlsPanelOpen: !state.isControlsPanelOpen })),
     toggleShapeList: () =>
       set((state) => ({ isShapeListOpen: !state.isShapeListOpen })),
+    setRendererMode: (mode) => set({ rendererMode: mode }),
 
     // ========================================================================
     // Hydration
     // ========================================================================
 
     hydrate: (data) => {
-      const shapes = data.shapes ?? [];
+      const palette = data.palette ?? [];
+      // Linked colours follow the palette, in case they were saved out of step
+      const shapes = (data.shapes ?? []).map((shape) =>
+        applyPalette(shape, palette)
+      );
       const shapeState = normalizeShapes(shapes);
 
       // Don't restore selection - always start with no selection on refresh
-      set({
-        shapeState,
-        selectedShapeId: null,
-        zoom: clamp(data.zoom ?? 10, MIN_ZOOM, MAX_ZOOM),
-        canvasOffset: data.canvasOffset ?? { x: 0, y: 0 },
-        isControlsPanelOpen: data.isControlsPanelOpen ?? false,
-        isShapeListOpen: data.isShapeListOpen ?? false,
+      set((state) => {
+        const hydrated = {
+          shapeState,
+          selectedShapeId: null,
+          combineShapeIds: [],
+          zoom: clamp(data.zoom ?? 10, MIN_ZOOM, MAX_ZOOM),
+          canvasOffset: data.canvasOffset ?? { x: 0, y: 0 },
+          palette,
+          paletteLock: data.paletteLock ?? null,
+          isControlsPanelOpen: data.isControlsPanelOpen ?? false,
+          isShapeListOpen: data.isShapeListOpen ?? false,
+          rendererMode: data.rendererMode ?? 'dom',
+        };
+        // Saves from before the lock, or edited by hand, may hold colours
+        // it doesn't allow
+        return { ...hydrated, ...snapToLock({ ...state, ...hydrated }) };
       });
     },
   }))
@@ -433,12 +1170,15 @@ export const selectSelectedShape = (
   state: WorkspaceState
 ): ShapeData | undefined =>
   state.selectedShapeId
-    ? state.shapeState.entities[state.selectedShapeId]
+    ? findShape(denormalizeShapes(state.shapeState), state.selectedShapeId)
     : undefined;
 
 export const selectIsEditing = (state: WorkspaceState): boolean =>
   state.selectedShapeId !== null;
 
+export const selectCanPaintSelectedShape = (state: WorkspaceState): boolean =>
+  isPaintableShape(state.shapeState, state.selectedShapeId);
+
 // ============================================================================
 // Persistence helpers
 // ============================================================================
@@ -450,7 +1190,10 @@ export function getPersistedWorkspace(): PersistedWorkspace {
     shapes: denormalizeShapes(state.shapeState),
     zoom: state.zoom,
     canvasOffset: state.canvasOffset,
+    palette: state.palette,
+    paletteLock: state.paletteLock,
     isControlsPanelOpen: state.isControlsPanelOpen,
     isShapeListOpen: state.isShapeListOpen,
+    rendererMode: state.rendererMode,
   };
 }
@@ -0,0 +1,126 @@
+import type {
+  ColorRampOptions,
+  RampColorSpace,
+} from '../constants/pixel-shape';
+import {
+  hslToRgb,
+  oklchToRgb,
+  rgbToHsl,
+  rgbToOklch,
+  type RgbColor,
+} from './color-space';
+import { formatColor, toRgba } from './css-color';
+import { darkenColor } from './pixel-shape';
+
+interface RampSpace {
+  /** Lightness the darkest and lightest ends approach */
+  minLightness: number;
+  maxLightness: number;
+  /** Hues highlights and shadows drift towards */
+  warmHue: number;
+  coolHue: number;
+}
+
+// OKLCH puts yellow and blue at different angles than HSL
+const RAMP_SPACES: Record<RampColorSpace, RampSpace> = {
+  hsl: { minLightness: 0.08, maxLightness: 0.95, warmHue: 60, coolHue: 240 },
+  oklch: { minLightness: 0.18, maxLightness: 0.97, warmHue: 90, coolHue: 265 },
+};
+
+/**
+ * Signed rotation from `hue` towards `target`, the short way round,
+ * limited to `amount` degrees.
+ */
+const shiftTowards = (hue: number, target: number, amount: number) => {
+  const distance = ((target - hue + 540) % 360) - 180;
+  return Math.sign(distance) * Math.min(Math.abs(distance), amount);
+};
+
+/**
+ * Lightness, saturation (chroma in OKLCH) and hue of a colour.
+ */
+const getRampComponents = (rgb: RgbColor, space: RampColorSpace) => {
+  if (space === 'oklch') {
+    const { l, c, h } = rgbToOklch(rgb);
+    return { lightness: l, saturation: c, hue: h };
+  }
+  const { h, s, l } = rgbToHsl(rgb);
+  return { lightness: l, saturation: s, hue: h };
+};
+
+/**
+ * A colour along the ramp through `baseColor`, at `position` from -1
+ * (darkest) through 0 (the base colour) to 1 (lightest). The base
+ * colour's alpha carries through the ramp.
+ */
+export const getRampColor = (
+  baseColor: string,
+  position: number,
+  options: ColorRampOptions
+): string => {
+  const rgba = toRgba(baseColor);
+  if (position === 0) return formatColor(rgba);
+
+  const space = RAMP_SPACES[options.space];
+  const base = getRampComponents(rgba, options.space);
+
+  const amount = Math.min(1, Math.abs(position));
+  const shaped = amount ** options.valueCurve;
+  // Colours already beyond an end keep their lightness on that side
+  const end =
+    position > 0
+      ? Math.max(base.lightness, space.maxLightness)
+      : Math.min(base.lightness, space.minLightness);
+  const lightness = base.lightness + (end - base.lightness) * shaped;
+  const saturation = Math.max(
+    0,
+    base.saturation * (1 - options.saturationCurve * amount * amount)
+  );
+  const hue =
+    base.hue +
+    shiftTowards(
+      base.hue,
+      position > 0 ? space.warmHue : space.coolHue,
+      options.hueShift * amount
+    );
+
+  if (options.space === 'oklch') {
+    const rgb = oklchToRgb({ l: lightness, c: saturation, h: hue });
+    return formatColor({ ...rgb, a: rgba.a });
+  }
+
+  // At any hue and saturation, scaling the channels of the mid-lightness
+  // colour towards black or white reaches every lightness below or above
+  // it, so the ramp step is that colour darkened or lightened
+  const middle = hslToRgb({ h: hue, s: Math.min(1, saturation), l: 0.5 });
+  return formatColor(
+    toRgba(
+      darkenColor(
+        formatColor({ ...middle, a: rgba.a }),
+        lightness <= 0.5 ? 1 - lightness / 0.5 : (0.5 - lightness) / 0.5
+      )
+    )
+  );
+};
+
+/**
+ * A ramp of `options.steps` HEX colours from darkest to lightest. The
+ * middle step (or the one above it, for an even count) is the base
+ * colour, and each side spreads evenly to its end, or to `spread` of
+ * the way there.
+ */
+export const generateColorRamp = (
+  baseColor: string,
+  options: ColorRampOptions,
+  spread = 1
+): string[] => {
+  const baseIndex = Math.floor(options.steps / 2);
+  const highlights = options.steps - 1 - baseIndex;
+
+  return Array.from({ length: options.steps }, (_, index) => {
+    const delta = index - baseIndex;
+    const position =
+      delta === 0 ? 0 : delta > 0 ? delta / highlights : delta / baseIndex;
+    return getRampColor(baseColor, position * spread, options);
+  });
+};
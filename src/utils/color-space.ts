@@ -0,0 +1,149 @@
+// Conversions between sRGB and the HSL, OKLab and OKLCH colour spaces.
+// Channels are 0-255, hues are degrees, and the other components run
+// roughly 0-1 (OKLab's a and b from about -0.4 to 0.4).
+
+export interface RgbColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface HslColor {
+  h: number;
+  s: number;
+  l: number;
+}
+
+export interface OklabColor {
+  l: number;
+  a: number;
+  b: number;
+}
+
+export interface OklchColor {
+  l: number;
+  c: number;
+  h: number;
+}
+
+const clampChannel = (value: number) => Math.max(0, Math.min(255, value));
+
+export const toHexColor = ({ r, g, b }: RgbColor): string =>
+  `#${[r, g, b]
+    .map((channel) => Math.round(clampChannel(channel)).toString(16).padStart(2, '0'))
+    .join('')}`;
+
+export const rgbToHsl = ({ r, g, b }: RgbColor): HslColor => {
+  const red = r / 255;
+  const green = g / 255;
+  const blue = b / 255;
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+  const chroma = max - min;
+  if (chroma === 0) return { h: 0, s: 0, l: lightness };
+
+  const saturation = chroma / (1 - Math.abs(2 * lightness - 1));
+  let hue: number;
+  if (max === red) hue = ((green - blue) / chroma) % 6;
+  else if (max === green) hue = (blue - red) / chroma + 2;
+  else hue = (red - green) / chroma + 4;
+
+  return { h: (hue * 60 + 360) % 360, s: saturation, l: lightness };
+};
+
+export const hslToRgb = ({ h, s, l }: HslColor): RgbColor => {
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const hue = (((h % 360) + 360) % 360) / 60;
+  const second = chroma * (1 - Math.abs((hue % 2) - 1));
+  const [red, green, blue] =
+    hue < 1 ? [chroma, second, 0]
+    : hue < 2 ? [second, chroma, 0]
+    : hue < 3 ? [0, chroma, second]
+    : hue < 4 ? [0, second, chroma]
+    : hue < 5 ? [second, 0, chroma]
+    : [chroma, 0, second];
+  const m = l - chroma / 2;
+  const channel = (value: number) => Math.round((value + m) * 255);
+
+  return { r: channel(red), g: channel(green), b: channel(blue) };
+};
+
+const toLinear = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+const fromLinear = (value: number) =>
+  255 * (value <= 0.0031308 ? 12.92 * value : 1.055 * value ** (1 / 2.4) - 0.055);
+
+export const rgbToOklab = ({ r, g, b }: RgbColor): OklabColor => {
+  const red = toLinear(r);
+  const green = toLinear(g);
+  const blue = toLinear(b);
+
+  const l = Math.cbrt(0.4122214708 * red + 0.5363325363 * green + 0.0514459929 * blue);
+  const m = Math.cbrt(0.2119034982 * red + 0.6806995451 * green + 0.1073969566 * blue);
+  const s = Math.cbrt(0.0883024619 * red + 0.2817188376 * green + 0.6299787005 * blue);
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  };
+};
+
+export const rgbToOklch = (rgb: RgbColor): OklchColor => {
+  const { l, a, b } = rgbToOklab(rgb);
+  return {
+    l,
+    c: Math.hypot(a, b),
+    h: ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360,
+  };
+};
+
+/**
+ * Linear sRGB of an OKLCH colour, which may fall outside 0-1 when the
+ * colour is out of gamut.
+ */
+const oklchToLinear = ({ l: lightness, c, h }: OklchColor) => {
+  const radians = (h * Math.PI) / 180;
+  const a = c * Math.cos(radians);
+  const bAxis = c * Math.sin(radians);
+
+  const l = (lightness + 0.3963377774 * a + 0.2158037573 * bAxis) ** 3;
+  const m = (lightness - 0.1055613458 * a - 0.0638541728 * bAxis) ** 3;
+  const s = (lightness - 0.0894841775 * a - 1.291485548 * bAxis) ** 3;
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+};
+
+const isInGamut = (color: OklchColor) =>
+  oklchToLinear(color).every((value) => value >= -1e-4 && value <= 1 + 1e-4);
+
+/**
+ * Converts to sRGB, reducing chroma until the colour fits so lightness
+ * and hue are kept.
+ */
+export const oklchToRgb = (color: OklchColor): RgbColor => {
+  let mapped = color;
+  if (!isInGamut(color)) {
+    let low = 0;
+    let high = color.c;
+    for (let i = 0; i < 16; i++) {
+      const mid = (low + high) / 2;
+      if (isInGamut({ ...color, c: mid })) low = mid;
+      else high = mid;
+    }
+    mapped = { ...color, c: low };
+  }
+
+  const [red, green, blue] = oklchToLinear(mapped).map((value) =>
+    Math.round(clampChannel(fromLinear(Math.max(0, Math.min(1, value)))))
+  );
+  return { r: red, g: green, b: blue };
+};
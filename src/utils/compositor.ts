@@ -0,0 +1,259 @@
+import type { ShapeData } from '../constants/pixel-shape';
+import { getCachedRaster } from './pixel-shape';
+import {
+  BLEND_MODE_OPERATIONS,
+  drawShapeToCanvas,
+  getShapeRenderKey,
+} from './shape-render';
+
+// Draws every visible shape into one viewport canvas, for documents with
+// too many shapes for an element each. Shape bitmaps are cached at 1x and
+// scaled when drawn, and between frames only the regions whose shapes
+// changed are redrawn.
+
+export interface CompositorView {
+  zoom: number;
+  offset: { x: number; y: number };
+  /** Viewport size in CSS pixels */
+  width: number;
+  height: number;
+  /** Device pixels per CSS pixel of the canvas backing store */
+  pixelRatio: number;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface Layer {
+  id: number;
+  key: string;
+  shape: ShapeData;
+  /** Raster bounds in world pixels */
+  bounds: Rect;
+}
+
+/**
+ * What the canvas shows after a frame, compared against the next frame
+ * to find what needs redrawing.
+ */
+export interface CompositorFrame {
+  view: CompositorView;
+  lockedColors: string[] | null;
+  layers: Layer[];
+}
+
+interface CachedBitmap {
+  key: string;
+  lockedColors: string[] | null;
+  canvas: HTMLCanvasElement;
+}
+
+// Beyond this many dirty regions, or this share of the viewport, one
+// full redraw is cheaper than clipping to each region
+const MAX_DIRTY_REGIONS = 16;
+const MAX_DIRTY_AREA = 0.5;
+
+const bitmapCache = new Map<number, CachedBitmap>();
+
+/**
+ * A shape's pixels at 1x, drawn again only when its render key or the
+ * palette lock changes.
+ */
+const getShapeBitmap = (
+  layer: Layer,
+  lockedColors: string[] | null
+): HTMLCanvasElement => {
+  const cached = bitmapCache.get(layer.id);
+  if (cached && cached.key === layer.key && cached.lockedColors === lockedColors) {
+    return cached.canvas;
+  }
+
+  const canvas = cached?.canvas ?? document.createElement('canvas');
+  canvas.width = layer.bounds.width;
+  canvas.height = layer.bounds.height;
+  const ctx = canvas.getContext('2d');
+  if (ctx) drawShapeToCanvas(ctx, layer.shape, lockedColors);
+  bitmapCache.set(layer.id, { key: layer.key, lockedColors, canvas });
+  return canvas;
+};
+
+const toLayer = (shape: ShapeData): Layer => {
+  const raster = getCachedRaster(shape);
+  return {
+    id: shape.id,
+    key: getShapeRenderKey(shape),
+    shape,
+    bounds: {
+      x: shape.position.x + raster.offsetX,
+      y: shape.position.y + raster.offsetY,
+      width: raster.width,
+      height: raster.height,
+    },
+  };
+};
+
+const isSameView = (a: CompositorView, b: CompositorView) =>
+  a.zoom === b.zoom &&
+  a.offset.x === b.offset.x &&
+  a.offset.y === b.offset.y &&
+  a.width === b.width &&
+  a.height === b.height &&
+  a.pixelRatio === b.pixelRatio;
+
+const isSameRect = (a: Rect, b: Rect) =>
+  a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+
+const intersects = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width &&
+  b.x < a.x + a.width &&
+  a.y < b.y + b.height &&
+  b.y < a.y + a.height;
+
+/**
+ * A world rectangle on screen, grown to whole CSS pixels and a pixel of
+ * margin so scaled edges are fully covered, and clipped to the viewport.
+ * Null if nothing of it is visible.
+ */
+const toScreenRect = (rect: Rect, view: CompositorView): Rect | null => {
+  const left = Math.max(0, Math.floor(view.offset.x + rect.x * view.zoom) - 1);
+  const top = Math.max(0, Math.floor(view.offset.y + rect.y * view.zoom) - 1);
+  const right = Math.min(
+    view.width,
+    Math.ceil(view.offset.x + (rect.x + rect.width) * view.zoom) + 1
+  );
+  const bottom = Math.min(
+    view.height,
+    Math.ceil(view.offset.y + (rect.y + rect.height) * view.zoom) + 1
+  );
+  return right > left && bottom > top
+    ? { x: left, y: top, width: right - left, height: bottom - top }
+    : null;
+};
+
+/**
+ * World rectangles whose pixels differ between the frames: where shapes
+ * were added, removed, moved, restyled or reblended. Null when the whole
+ * viewport has to be redrawn.
+ */
+const getDirtyRects = (
+  previous: CompositorFrame | null,
+  view: CompositorView,
+  layers: Layer[],
+  lockedColors: string[] | null
+): Rect[] | null => {
+  if (
+    !previous ||
+    !isSameView(previous.view, view) ||
+    previous.lockedColors !== lockedColors
+  ) {
+    return null;
+  }
+
+  const previousById = new Map(previous.layers.map((layer) => [layer.id, layer]));
+  const currentIds = new Set(layers.map((layer) => layer.id));
+  // A change in stacking order can change any overlap, so redraw it all
+  const keptPrevious = previous.layers.filter((layer) => currentIds.has(layer.id));
+  const keptCurrent = layers.filter((layer) => previousById.has(layer.id));
+  if (keptPrevious.some((layer, i) => layer.id !== keptCurrent[i].id)) {
+    return null;
+  }
+
+  const dirty: Rect[] = [];
+  for (const layer of previous.layers) {
+    if (!currentIds.has(layer.id)) dirty.push(layer.bounds);
+  }
+  for (const layer of layers) {
+    const before = previousById.get(layer.id);
+    if (!before) {
+      dirty.push(layer.bounds);
+    } else if (!isSameRect(before.bounds, layer.bounds)) {
+      dirty.push(before.bounds, layer.bounds);
+    } else if (
+      before.key !== layer.key ||
+      before.shape.blendMode !== layer.shape.blendMode
+    ) {
+      dirty.push(layer.bounds);
+    }
+  }
+  return dirty;
+};
+
+/**
+ * Clears a screen region and draws every shape that overlaps it, bottom
+ * first, with its blend mode.
+ */
+const drawRegion = (
+  ctx: CanvasRenderingContext2D,
+  region: Rect,
+  view: CompositorView,
+  layers: Layer[],
+  lockedColors: string[] | null
+) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(region.x, region.y, region.width, region.height);
+  ctx.clip();
+  ctx.clearRect(region.x, region.y, region.width, region.height);
+
+  for (const layer of layers) {
+    const screen = toScreenRect(layer.bounds, view);
+    if (!screen || !intersects(screen, region)) continue;
+
+    ctx.globalCompositeOperation = BLEND_MODE_OPERATIONS[layer.shape.blendMode];
+    ctx.drawImage(
+      getShapeBitmap(layer, lockedColors),
+      view.offset.x + layer.bounds.x * view.zoom,
+      view.offset.y + layer.bounds.y * view.zoom,
+      layer.bounds.width * view.zoom,
+      layer.bounds.height * view.zoom
+    );
+  }
+  ctx.restore();
+};
+
+/**
+ * Draws a frame of the document, bottom shape first, redrawing only what
+ * changed since `previous`. The canvas backing store must already match
+ * the view's size and pixel ratio. Returns the frame to pass next time.
+ */
+export const renderCompositorFrame = (
+  ctx: CanvasRenderingContext2D,
+  shapes: ShapeData[],
+  view: CompositorView,
+  lockedColors: string[] | null,
+  previous: CompositorFrame | null
+): CompositorFrame => {
+  const layers = shapes.map(toLayer);
+  const viewport: Rect = { x: 0, y: 0, width: view.width, height: view.height };
+
+  let regions: Rect[] = [viewport];
+  const dirty = getDirtyRects(previous, view, layers, lockedColors);
+  if (dirty) {
+    regions = dirty.flatMap((rect) => toScreenRect(rect, view) ?? []);
+    const area = regions.reduce((sum, r) => sum + r.width * r.height, 0);
+    if (
+      regions.length > MAX_DIRTY_REGIONS ||
+      area > viewport.width * viewport.height * MAX_DIRTY_AREA
+    ) {
+      regions = [viewport];
+    }
+  }
+
+  ctx.setTransform(view.pixelRatio, 0, 0, view.pixelRatio, 0, 0);
+  ctx.imageSmoothingEnabled = false;
+  for (const region of regions) {
+    drawRegion(ctx, region, view, layers, lockedColors);
+  }
+
+  // Bitmaps of shapes deleted or culled from view are no longer needed
+  const ids = new Set(layers.map((layer) => layer.id));
+  for (const id of bitmapCache.keys()) {
+    if (!ids.has(id)) bitmapCache.delete(id);
+  }
+
+  return { view, lockedColors, layers };
+};
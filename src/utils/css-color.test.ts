@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeColor, parseColor } from './css-color';
+
+describe('parseColor', () => {
+  it('reads hex with or without alpha digits', () => {
+    expect(parseColor('#f80')).toEqual({ r: 255, g: 136, b: 0, a: 1 });
+    expect(parseColor('#ff880080')).toEqual({ r: 255, g: 136, b: 0, a: 128 / 255 });
+    expect(parseColor('FF8800')).toEqual({ r: 255, g: 136, b: 0, a: 1 });
+  });
+
+  it('reads functions in the comma and space syntax', () => {
+    expect(parseColor('rgba(255, 136, 0, 0.5)')).toEqual({ r: 255, g: 136, b: 0, a: 0.5 });
+    expect(parseColor('rgb(100% 0% 0% / 25%)')).toEqual({ r: 255, g: 0, b: 0, a: 0.25 });
+    expect(parseColor('hsl(120deg 100% 50%)')).toEqual({ r: 0, g: 255, b: 0, a: 1 });
+  });
+
+  it('reads named colours regardless of case and spacing', () => {
+    expect(parseColor('  RebeccaPurple ')).toEqual({ r: 102, g: 51, b: 153, a: 1 });
+  });
+
+  it.each([
+    '#12345',
+    '#1234567',
+    '#ggg',
+    'rgb(1, 2)',
+    'rgb(1, 2, 3 / 4)',
+    'hsl(10% 50% 50%)',
+    'notacolor',
+    '',
+  ])('rejects %j', (text) => {
+    expect(parseColor(text)).toBeNull();
+  });
+});
+
+describe('normalizeColor', () => {
+  it.each([
+    ['#F80', '#ff8800'],
+    ['#ff8800ff', '#ff8800'],
+    ['#ff880080', '#ff880080'],
+    ['rgba(255, 136, 0, 0.5)', '#ff880080'],
+    ['hsl(0, 100%, 50%)', '#ff0000'],
+    ['white', '#ffffff'],
+  ])('writes %j as %j', (text, expected) => {
+    expect(normalizeColor(text)).toBe(expected);
+  });
+
+  it('returns null for anything that is not a colour', () => {
+    expect(normalizeColor('#12345')).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import { NAMED_COLORS } from '../constants/css-colors';
+import { hslToRgb, toHexColor, type RgbColor } from './color-space';
+
+// Parsing of CSS colour syntax into the one form colours are kept in:
+// lowercase "#rrggbb", or "#rrggbbaa" when not fully opaque. The store,
+// renderers and persistence all work with that form, so colours pasted
+// as rgb(), hsl(), named colours or hex with alpha compare and save alike.
+
+export interface RgbaColor extends RgbColor {
+  /** Alpha from 0 (transparent) to 1 (opaque) */
+  a: number;
+}
+
+const OPAQUE_BLACK: RgbaColor = { r: 0, g: 0, b: 0, a: 1 };
+
+const HEX_PATTERN = /^#?([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/;
+const FUNCTION_PATTERN = /^(rgba?|hsla?)\(\s*(.*?)\s*\)$/;
+const NUMBER_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|grad|rad|turn)?$/;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+const parseHex = (digits: string): RgbaColor => {
+  const full =
+    digits.length <= 4
+      ? digits
+          .split('')
+          .map((char) => char + char)
+          .join('')
+      : digits;
+  const channel = (index: number) => parseInt(full.slice(index, index + 2), 16);
+
+  return {
+    r: channel(0),
+    g: channel(2),
+    b: channel(4),
+    a: full.length === 8 ? channel(6) / 255 : 1,
+  };
+};
+
+/**
+ * Reads a number with an optional unit, returning null for anything
+ * else.
+ */
+const parseNumber = (text: string) => {
+  const match = NUMBER_PATTERN.exec(text);
+  return match ? { value: Number(match[1]), unit: match[2] ?? '' } : null;
+};
+
+/**
+ * An alpha as a number (0-1) or percentage, clamped to 0-1.
+ */
+const parseAlpha = (text: string | undefined): number | null => {
+  if (text === undefined) return 1;
+  const number = parseNumber(text);
+  if (!number || (number.unit !== '' && number.unit !== '%')) return null;
+  return clamp(number.unit === '%' ? number.value / 100 : number.value, 0, 1);
+};
+
+/**
+ * Splits function arguments in either the legacy comma syntax,
+ * "r, g, b, a", or the modern space syntax, "r g b / a". Returns the
+ * three components and the alpha, or null if malformed.
+ */
+const splitArguments = (
+  text: string
+): { components: string[]; alpha: string | undefined } | null => {
+  if (text.includes(',')) {
+    if (text.includes('/')) return null;
+    const parts = text.split(',').map((part) => part.trim());
+    if (parts.length !== 3 && parts.length !== 4) return null;
+    return { components: parts.slice(0, 3), alpha: parts[3] };
+  }
+
+  const [main, alpha, ...rest] = text.split('/').map((part) => part.trim());
+  const components = main.split(/\s+/);
+  if (rest.length > 0 || components.length !== 3 || alpha === '') return null;
+  return { components, alpha };
+};
+
+const parseRgbFunction = (
+  components: string[],
+  alpha: number
+): RgbaColor | null => {
+  const channels: number[] = [];
+  for (const component of components) {
+    const number = parseNumber(component);
+    if (!number || (number.unit !== '' && number.unit !== '%')) return null;
+    const channel =
+      number.unit === '%' ? (number.value / 100) * 255 : number.value;
+    channels.push(clamp(channel, 0, 255));
+  }
+
+  const [r, g, b] = channels;
+  return { r, g, b, a: alpha };
+};
+
+const HUE_UNITS: Record<string, number> = {
+  '': 1,
+  deg: 1,
+  grad: 0.9,
+  rad: 180 / Math.PI,
+  turn: 360,
+};
+
+const parseHslFunction = (
+  components: string[],
+  alpha: number
+): RgbaColor | null => {
+  const [hue, saturation, lightness] = components.map(parseNumber);
+  if (!hue || !saturation || !lightness || hue.unit === '%') return null;
+  // Percent signs are optional in the modern syntax
+  if (![saturation, lightness].every(({ unit }) => unit === '' || unit === '%')) {
+    return null;
+  }
+
+  const { r, g, b } = hslToRgb({
+    h: hue.value * HUE_UNITS[hue.unit],
+    s: clamp(saturation.value / 100, 0, 1),
+    l: clamp(lightness.value / 100, 0, 1),
+  });
+  return { r, g, b, a: alpha };
+};
+
+/**
+ * Parses a CSS colour: hex with 3, 4, 6 or 8 digits (the hash is
+ * optional), rgb()/rgba(), hsl()/hsla() in the comma or space syntax, or
+ * a named colour. Case and surrounding whitespace are ignored. Returns
+ * null if the text is not a colour.
+ */
+export const parseColor = (text: string): RgbaColor | null => {
+  const input = text.trim().toLowerCase();
+
+  if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, input)) {
+    return parseHex(NAMED_COLORS[input].slice(1));
+  }
+
+  const hex = HEX_PATTERN.exec(input);
+  if (hex) return parseHex(hex[1]);
+
+  const call = FUNCTION_PATTERN.exec(input);
+  if (!call) return null;
+  const args = splitArguments(call[2]);
+  const alpha = args && parseAlpha(args.alpha);
+  if (!args || alpha === null) return null;
+
+  return call[1].startsWith('rgb')
+    ? parseRgbFunction(args.components, alpha)
+    : parseHslFunction(args.components, alpha);
+};
+
+/**
+ * Writes a colour in the canonical form, dropping the alpha digits when
+ * it is opaque.
+ */
+export const formatColor = (color: RgbaColor): string => {
+  const alpha = Math.round(clamp(color.a, 0, 1) * 255);
+  return alpha === 255
+    ? toHexColor(color)
+    : `${toHexColor(color)}${alpha.toString(16).padStart(2, '0')}`;
+};
+
+/**
+ * The canonical form of any CSS colour, or null if it is not one.
+ */
+export const normalizeColor = (text: string): string | null => {
+  const color = parseColor(text);
+  return color ? formatColor(color) : null;
+};
+
+export const isColor = (value: unknown): value is string =>
+  typeof value === 'string' && parseColor(value) !== null;
+
+/**
+ * Channels of a stored colour. Anything unreadable paints as opaque
+ * black rather than failing mid-render.
+ */
+export const toRgba = (color: string): RgbaColor =>
+  parseColor(color) ?? OPAQUE_BLACK;
+
+/**
+ * The opaque "#rrggbb" part of a colour, as `<input type="color">`
+ * requires.
+ */
+export const toOpaqueHex = (color: string): string => toHexColor(toRgba(color));
@@ -0,0 +1,58 @@
+import type { FillGradient } from '../constants/pixel-shape';
+import { getBayerThreshold } from './fill-pattern';
+
+/**
+ * Position along the gradient, 0-1, of a pixel at shape-local coordinates
+ * within `width` x `height` bounds.
+ */
+const getGradientPosition = (
+  gradient: FillGradient,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): number => {
+  // Pixel centre, normalised so the bounds run from -0.5 to 0.5
+  const u = (x + 0.5) / width - 0.5;
+  const v = (y + 0.5) / height - 0.5;
+
+  if (gradient.type === 'radial') {
+    const dx = u + 0.5 - gradient.centerX;
+    const dy = v + 0.5 - gradient.centerY;
+    // The farthest corner is the end of the gradient
+    const reach = Math.hypot(
+      Math.max(gradient.centerX, 1 - gradient.centerX),
+      Math.max(gradient.centerY, 1 - gradient.centerY)
+    );
+    return Math.min(1, Math.hypot(dx, dy) / reach);
+  }
+
+  const radians = (gradient.angle * Math.PI) / 180;
+  const dirX = Math.cos(radians);
+  const dirY = Math.sin(radians);
+  // Corners project to ±extent, so the gradient spans the whole bounds
+  const extent = (Math.abs(dirX) + Math.abs(dirY)) / 2;
+  return (u * dirX + v * dirY + extent) / (2 * extent);
+};
+
+/**
+ * The band, from 0 to `steps - 1`, a pixel falls in. Dithering spreads
+ * each boundary over an ordered pattern in world coordinates, so it lines
+ * up with the fill patterns.
+ */
+export const getGradientStep = (
+  gradient: FillGradient,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  worldX: number,
+  worldY: number
+): number => {
+  const position = getGradientPosition(gradient, x, y, width, height);
+  const level = position * (gradient.steps - 1);
+  const step = gradient.dither
+    ? Math.floor(level + getBayerThreshold(4, worldX, worldY))
+    : Math.round(level);
+  return Math.max(0, Math.min(gradient.steps - 1, step));
+};
@@ -0,0 +1,85 @@
+import type { FillPattern } from '../constants/pixel-shape';
+
+// Ordered dither (Bayer) threshold matrices, each built from the one
+// below it so the thresholds stay evenly spread
+const createBayerMatrix = (size: number): number[][] => {
+  if (size === 1) return [[0]];
+
+  const half = createBayerMatrix(size / 2);
+  const matrix: number[][] = [];
+  for (let y = 0; y < size; y++) {
+    const row: number[] = [];
+    for (let x = 0; x < size; x++) {
+      const quadrant = [0, 2, 3, 1][(y >= size / 2 ? 2 : 0) + (x >= size / 2 ? 1 : 0)];
+      row.push(4 * half[y % (size / 2)][x % (size / 2)] + quadrant);
+    }
+    matrix.push(row);
+  }
+  return matrix;
+};
+
+const BAYER_MATRICES = {
+  bayer2: createBayerMatrix(2),
+  bayer4: createBayerMatrix(4),
+  bayer8: createBayerMatrix(8),
+};
+
+// Wraps negative world coordinates into the tile
+const wrap = (value: number, size: number) => ((value % size) + size) % size;
+
+/**
+ * Ordered-dither threshold in [0, 1) for a world pixel.
+ */
+export const getBayerThreshold = (
+  size: 2 | 4 | 8,
+  worldX: number,
+  worldY: number
+): number => {
+  const matrix = BAYER_MATRICES[`bayer${size}`];
+  return (matrix[wrap(worldY, size)][wrap(worldX, size)] + 0.5) / (size * size);
+};
+
+/**
+ * Whether the pattern paints its second colour at a world pixel. Using
+ * world coordinates keeps neighbouring shapes' dithering continuous.
+ */
+export const isPatternPixel = (
+  pattern: FillPattern,
+  worldX: number,
+  worldY: number
+): boolean => {
+  switch (pattern.type) {
+    case 'solid':
+      return false;
+    case 'bayer2':
+    case 'bayer4':
+    case 'bayer8': {
+      const size = BAYER_MATRICES[pattern.type].length as 2 | 4 | 8;
+      return getBayerThreshold(size, worldX, worldY) < pattern.density;
+    }
+    case 'checker':
+      return wrap(worldX + worldY, 2) === 1;
+    case 'horizontal-lines':
+      return wrap(worldY, 2) === 1;
+    case 'custom': {
+      const row = pattern.tile[wrap(worldY, pattern.tile.length)];
+      return row[wrap(worldX, row.length)] === '1';
+    }
+  }
+};
+
+/**
+ * Whether a custom tile is a non-empty rectangle of "0"/"1" rows.
+ */
+export const isValidPatternTile = (tile: unknown, maxSize: number): boolean =>
+  Array.isArray(tile) &&
+  tile.length >= 1 &&
+  tile.length <= maxSize &&
+  tile.every(
+    (row) =>
+      typeof row === 'string' &&
+      row.length >= 1 &&
+      row.length <= maxSize &&
+      row.length === tile[0].length &&
+      /^[01]+$/.test(row)
+  );
@@ -0,0 +1,44 @@
+// A Map-backed cache holding at most `capacity` entries, evicting the
+// least recently used one to make room. Map iteration follows insertion
+// order, so an entry is moved to the back whenever it is used.
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+  capacity: number;
+}
+
+export interface LruCache<K, V> {
+  get(key: K): V | undefined;
+  set(key: K, value: V): void;
+  getStats(): CacheStats;
+}
+
+export const createLruCache = <K, V>(capacity: number): LruCache<K, V> => {
+  const entries = new Map<K, V>();
+  let hits = 0;
+  let misses = 0;
+
+  return {
+    get: (key) => {
+      const value = entries.get(key);
+      if (value === undefined) {
+        misses++;
+        return undefined;
+      }
+      hits++;
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > capacity) {
+        entries.delete(entries.keys().next().value as K);
+      }
+    },
+    getStats: () => ({ hits, misses, size: entries.size, capacity }),
+  };
+};
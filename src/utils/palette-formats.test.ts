@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { PaletteEntry } from '../constants/pixel-shape';
+import {
+  PALETTE_FORMATS,
+  parsePalette,
+  serializePalette,
+} from './palette-formats';
+
+const PALETTE: PaletteEntry[] = [
+  { id: 1, name: 'Ember', color: '#ff4400' },
+  { id: 2, name: 'Sea', color: '#1a2b3c' },
+  { id: 3, name: 'Ink', color: '#000000' },
+];
+
+describe('palette file round-trips', () => {
+  it.each(PALETTE_FORMATS)('reads back the colours written as .%s', (format) => {
+    const text = serializePalette(format, PALETTE, 'Test');
+    const result = parsePalette(`test.${format}`, text);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.colors.map(({ color }) => color)).toEqual(
+      PALETTE.map(({ color }) => color)
+    );
+  });
+
+  it('keeps colour names in GIMP palettes', () => {
+    const result = parsePalette('test.gpl', serializePalette('gpl', PALETTE, 'Test'));
+
+    expect(result).toMatchObject({
+      ok: true,
+      name: 'Test',
+      colors: PALETTE.map(({ name, color }) => ({ name, color })),
+    });
+  });
+
+  it('keeps the alpha in Paint.NET palettes', () => {
+    const palette = [{ id: 1, name: '', color: '#ff440080' }];
+    const text = serializePalette('txt', palette, 'Test');
+
+    expect(text).toContain('80FF4400');
+    expect(parsePalette('test.txt', text)).toMatchObject({
+      ok: true,
+      colors: [{ color: '#ff440080' }],
+    });
+  });
+});
+
+describe('palette file errors', () => {
+  it.each([
+    [
+      'bad.gpl',
+      'GIMP Palette\nName: Bad\n255 0 0 Red\n300 0 0 Too red\n',
+      'Line 4: Expected a color as three numbers from 0 to 255, got "300 0 0 Too red".',
+    ],
+    [
+      'bad.gpl',
+      'GIMP\n255 0 0\n',
+      'Line 1: Expected the header "GIMP Palette".',
+    ],
+    [
+      'bad.pal',
+      'JASC-PAL\n0100\n3\n0 0 0\n255 255 255\n',
+      'Line 3: The header declares 3 colors but the file has 2.',
+    ],
+    [
+      'bad.pal',
+      'JASC-PAL\n0200\n1\n0 0 0\n',
+      'Line 2: Expected the version "0100".',
+    ],
+    [
+      'bad.txt',
+      '; paint.net Palette File\nFFFF0000\nred\n',
+      'Line 3: Expected an AARRGGBB hex color, got "red".',
+    ],
+    [
+      'bad.hex',
+      'ff0000\n\n12345\n',
+      'Line 3: Expected an RRGGBB hex color, got "12345".',
+    ],
+  ])('reports the offending line of %s', (fileName, text, error) => {
+    expect(parsePalette(fileName, text)).toEqual({ ok: false, error });
+  });
+
+  it('reports files without colours', () => {
+    expect(parsePalette('empty.hex', '\n\n')).toEqual({
+      ok: false,
+      error: 'The HEX file does not contain any colors.',
+    });
+  });
+
+  it('rejects unknown file types', () => {
+    expect(parsePalette('palette.aco', '')).toEqual({
+      ok: false,
+      error: '"palette.aco" is not a recognised palette. Use a .gpl, .pal, .txt or .hex file.',
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import type { PaletteEntry } from '../constants/pixel-shape';
+import { formatColor, toOpaqueHex, toRgba } from './css-color';
+
+// Readers and writers for the palette files artists bring from Lospec and
+// other editors. Parsers report the first problem with its line number
+// rather than skipping what they don't understand.
+
+export const PALETTE_FORMATS = ['gpl', 'pal', 'txt', 'hex'] as const;
+
+export type PaletteFormat = typeof PALETTE_FORMATS[number];
+
+export const PALETTE_FORMAT_LABELS: Record<PaletteFormat, string> = {
+  gpl: 'GIMP (.gpl)',
+  pal: 'JASC-PAL (.pal)',
+  txt: 'Paint.NET (.txt)',
+  hex: 'HEX list (.hex)',
+};
+
+export type ImportedColor = Omit<PaletteEntry, 'id'>;
+
+export type PaletteParseResult =
+  | { ok: true; name: string; colors: ImportedColor[] }
+  | { ok: false; error: string };
+
+interface Line {
+  number: number;
+  text: string;
+}
+
+const toLines = (text: string): Line[] =>
+  text
+    .replace(/^\uFEFF/, '')
+    .split(/\r\n|\r|\n/)
+    .map((line, index) => ({ number: index + 1, text: line.trim() }));
+
+const fail = (message: string, line?: Line): PaletteParseResult => ({
+  ok: false,
+  error: line ? `Line ${line.number}: ${message}` : message,
+});
+
+const describe = (line: Line) =>
+  line.text.length > 40 ? `"${line.text.slice(0, 40)}…"` : `"${line.text}"`;
+
+// Formats other than Paint.NET have no alpha, so they get the opaque
+// channels
+const toChannels = (color: string) => {
+  const { r, g, b } = toRgba(color);
+  return [r, g, b];
+};
+
+// RRGGBB digits without the hash, lowercase
+const toHexDigits = (color: string) => toOpaqueHex(color).slice(1);
+
+// AARRGGBB digits, uppercase, as Paint.NET writes them
+const toArgbDigits = (color: string) => {
+  const alpha = Math.round(toRgba(color).a * 255);
+  return `${alpha.toString(16).padStart(2, '0')}${toHexDigits(color)}`.toUpperCase();
+};
+
+/**
+ * Reads "R G B" channel triples, returning null unless there are three
+ * whole numbers from 0 to 255.
+ */
+const parseChannels = (fields: string[]): [number, number, number] | null => {
+  if (fields.length !== 3 || !fields.every((field) => /^\d{1,3}$/.test(field))) {
+    return null;
+  }
+  const channels = fields.map(Number);
+  return channels.every((channel) => channel <= 255)
+    ? (channels as [number, number, number])
+    : null;
+};
+
+const noColors = (format: string): PaletteParseResult =>
+  fail(`The ${format} file does not contain any colors.`);
+
+const parseGpl = (text: string): PaletteParseResult => {
+  const lines = toLines(text);
+  if (lines[0]?.text !== 'GIMP Palette') {
+    return fail('Expected the header "GIMP Palette".', lines[0]);
+  }
+
+  let name = '';
+  const colors: ImportedColor[] = [];
+  for (const line of lines.slice(1)) {
+    if (line.text === '' || line.text.startsWith('#')) continue;
+
+    const header = /^(Name|Columns):\s*(.*)$/.exec(line.text);
+    if (header) {
+      if (header[1] === 'Name') name = header[2];
+      continue;
+    }
+
+    // Channels are space-padded; the rest of the line is the colour name
+    const match = /^(\S+)\s+(\S+)\s+(\S+)\s*(.*)$/.exec(line.text);
+    const channels = match && parseChannels(match.slice(1, 4));
+    if (!match || !channels) {
+      return fail(
+        `Expected a color as three numbers from 0 to 255, got ${describe(line)}.`,
+        line
+      );
+    }
+    const [r, g, b] = channels;
+    colors.push({ name: match[4], color: formatColor({ r, g, b, a: 1 }) });
+  }
+
+  return colors.length > 0 ? { ok: true, name, colors } : noColors('GIMP palette');
+};
+
+const parseJascPal = (text: string): PaletteParseResult => {
+  if (text.startsWith('RIFF')) {
+    return fail('Binary RIFF palettes are not supported; save the palette as JASC-PAL.');
+  }
+
+  const lines = toLines(text);
+  if (lines[0]?.text !== 'JASC-PAL') {
+    return fail('Expected the header "JASC-PAL".', lines[0]);
+  }
+  if (lines[1]?.text !== '0100') {
+    return fail('Expected the version "0100".', lines[1] ?? lines[0]);
+  }
+  const countLine = lines[2];
+  if (!countLine || !/^\d+$/.test(countLine.text)) {
+    return fail('Expected the number of colors.', countLine ?? lines[1]);
+  }
+
+  const count = Number(countLine.text);
+  const colorLines = lines.slice(3).filter((line) => line.text !== '');
+  if (colorLines.length !== count) {
+    return fail(
+      `The header declares ${count} colors but the file has ${colorLines.length}.`,
+      countLine
+    );
+  }
+
+  const colors: ImportedColor[] = [];
+  for (const line of colorLines) {
+    const channels = parseChannels(line.text.split(/\s+/));
+    if (!channels) {
+      return fail(
+        `Expected a color as three numbers from 0 to 255, got ${describe(line)}.`,
+        line
+      );
+    }
+    const [r, g, b] = channels;
+    colors.push({ name: '', color: formatColor({ r, g, b, a: 1 }) });
+  }
+
+  return colors.length > 0 ? { ok: true, name: '', colors } : noColors('JASC-PAL');
+};
+
+const parsePaintNet = (text: string): PaletteParseResult => {
+  let name = '';
+  const colors: ImportedColor[] = [];
+  for (const line of toLines(text)) {
+    if (line.text === '') continue;
+    if (line.text.startsWith(';')) {
+      const header = /^;\s*Palette Name:\s*(.*)$/i.exec(line.text);
+      if (header) name = header[1];
+      continue;
+    }
+
+    // AARRGGBB, where the alpha may be left out
+    const match = /^([0-9a-f]{2})?([0-9a-f]{6})$/i.exec(line.text);
+    if (!match) {
+      return fail(`Expected an AARRGGBB hex color, got ${describe(line)}.`, line);
+    }
+    colors.push({
+      name: '',
+      color: formatColor(toRgba(`#${match[2]}${match[1] ?? ''}`)),
+    });
+  }
+
+  return colors.length > 0 ? { ok: true, name, colors } : noColors('Paint.NET palette');
+};
+
+const parseHexList = (text: string): PaletteParseResult => {
+  const colors: ImportedColor[] = [];
+  for (const line of toLines(text)) {
+    if (line.text === '') continue;
+
+    const match = /^#?([0-9a-f]{6})$/i.exec(line.text);
+    if (!match) {
+      return fail(`Expected an RRGGBB hex color, got ${describe(line)}.`, line);
+    }
+    colors.push({ name: '', color: `#${match[1].toLowerCase()}` });
+  }
+
+  return colors.length > 0 ? { ok: true, name: '', colors } : noColors('HEX');
+};
+
+const PARSERS: Record<PaletteFormat, (text: string) => PaletteParseResult> = {
+  gpl: parseGpl,
+  pal: parseJascPal,
+  txt: parsePaintNet,
+  hex: parseHexList,
+};
+
+/**
+ * Picks the format from the file's header, falling back to its extension.
+ * Returns null if neither is recognised.
+ */
+export const detectPaletteFormat = (
+  fileName: string,
+  text: string
+): PaletteFormat | null => {
+  const start = text.replace(/^\uFEFF/, '').trimStart();
+  if (start.startsWith('GIMP Palette')) return 'gpl';
+  if (start.startsWith('JASC-PAL') || start.startsWith('RIFF')) return 'pal';
+
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return PALETTE_FORMATS.find((format) => format === extension) ?? null;
+};
+
+export const parsePalette = (
+  fileName: string,
+  text: string
+): PaletteParseResult => {
+  const format = detectPaletteFormat(fileName, text);
+  if (!format) {
+    return fail(
+      `"${fileName}" is not a recognised palette. Use a .gpl, .pal, .txt or .hex file.`
+    );
+  }
+  return PARSERS[format](text);
+};
+
+export const serializePalette = (
+  format: PaletteFormat,
+  palette: PaletteEntry[],
+  name: string
+): string => {
+  switch (format) {
+    case 'gpl':
+      return [
+        'GIMP Palette',
+        `Name: ${name}`,
+        'Columns: 0',
+        '#',
+        ...palette.map((entry) => {
+          const channels = toChannels(entry.color)
+            .map((channel) => String(channel).padStart(3))
+            .join(' ');
+          return `${channels}\t${entry.name || `#${toHexDigits(entry.color)}`}`;
+        }),
+        '',
+      ].join('\n');
+    case 'pal':
+      // JASC-PAL files conventionally use CRLF line endings
+      return [
+        'JASC-PAL',
+        '0100',
+        String(palette.length),
+        ...palette.map((entry) => toChannels(entry.color).join(' ')),
+        '',
+      ].join('\r\n');
+    case 'txt':
+      return [
+        '; paint.net Palette File',
+        `; Palette Name: ${name}`,
+        `; Colors: ${palette.length}`,
+        ...palette.map((entry) => toArgbDigits(entry.color)),
+        '',
+      ].join('\n');
+    case 'hex':
+      return [...palette.map((entry) => toHexDigits(entry.color)), ''].join('\n');
+  }
+};
@@ -0,0 +1,144 @@
+import type { PaletteEntry, ShapeData } from '../constants/pixel-shape';
+import { BUILT_IN_PALETTES, type PaletteLock } from '../constants/palettes';
+import { rgbToOklab, type OklabColor } from './color-space';
+import { toRgba } from './css-color';
+
+export const getNextPaletteId = (palette: PaletteEntry[]): number =>
+  palette.reduce((max, entry) => Math.max(max, entry.id), 0) + 1;
+
+/**
+ * Copies the colours of linked palette entries into a shape and its
+ * composite children. Links to entries that no longer exist are dropped,
+ * keeping the last colour. Returns the same shape if nothing changed.
+ */
+export const applyPalette = (
+  shape: ShapeData,
+  palette: PaletteEntry[]
+): ShapeData => {
+  const base = palette.find((entry) => entry.id === shape.baseColorRef);
+  const outline = palette.find((entry) => entry.id === shape.outlineColorRef);
+
+  let updated = shape;
+  if (shape.baseColorRef !== null) {
+    updated = base
+      ? { ...updated, baseColor: base.color }
+      : { ...updated, baseColorRef: null };
+  }
+  if (shape.outlineColorRef !== null) {
+    updated = outline
+      ? { ...updated, outlineColor: outline.color }
+      : { ...updated, outlineColorRef: null };
+  }
+
+  if (updated.type === 'composite') {
+    const { children } = updated.params;
+    const applied = children.map((child) => applyPalette(child, palette));
+    if (applied.some((child, i) => child !== children[i])) {
+      updated = { ...updated, params: { ...updated.params, children: applied } };
+    }
+  }
+
+  const isUnchanged =
+    updated.baseColor === shape.baseColor &&
+    updated.baseColorRef === shape.baseColorRef &&
+    updated.outlineColor === shape.outlineColor &&
+    updated.outlineColorRef === shape.outlineColorRef &&
+    updated.params === shape.params;
+  return isUnchanged ? shape : updated;
+};
+
+/**
+ * Colours a locked document may use, or null when it is not locked. A
+ * lock to an empty document palette allows anything.
+ */
+export const getLockedColors = (
+  lock: PaletteLock | null,
+  palette: PaletteEntry[]
+): string[] | null => {
+  if (lock === null) return null;
+  if (lock !== 'document') return BUILT_IN_PALETTES[lock].colors;
+  return palette.length > 0 ? palette.map((entry) => entry.color) : null;
+};
+
+const oklabCache = new Map<string, OklabColor>();
+
+const toOklab = (color: string): OklabColor => {
+  let lab = oklabCache.get(color);
+  if (!lab) {
+    lab = rgbToOklab(toRgba(color));
+    oklabCache.set(color, lab);
+  }
+  return lab;
+};
+
+/**
+ * The palette colour nearest to `color` by OKLab distance, which tracks
+ * perceived difference far better than RGB distance.
+ */
+export const snapToPalette = (color: string, colors: string[]): string => {
+  const target = toOklab(color);
+  let nearest = colors[0];
+  let nearestDistance = Infinity;
+
+  for (const candidate of colors) {
+    const lab = toOklab(candidate);
+    const distance =
+      (lab.l - target.l) ** 2 + (lab.a - target.a) ** 2 + (lab.b - target.b) ** 2;
+    if (distance < nearestDistance) {
+      nearest = candidate;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+};
+
+/**
+ * Snaps every colour a shape stores, including its composite children,
+ * to the locked colours.
+ */
+export const snapShapeColors = (
+  shape: ShapeData,
+  colors: string[]
+): ShapeData => {
+  const snapped = {
+    ...shape,
+    baseColor: snapToPalette(shape.baseColor, colors),
+    outlineColor:
+      shape.outlineColor === null
+        ? null
+        : snapToPalette(shape.outlineColor, colors),
+    fillPattern: {
+      ...shape.fillPattern,
+      color: snapToPalette(shape.fillPattern.color, colors),
+    },
+    fillGradient: {
+      ...shape.fillGradient,
+      color: snapToPalette(shape.fillGradient.color, colors),
+    },
+  } as ShapeData;
+
+  if (snapped.type !== 'composite') return snapped;
+  return {
+    ...snapped,
+    params: {
+      ...snapped.params,
+      children: snapped.params.children.map((child) =>
+        snapShapeColors(child, colors)
+      ),
+    },
+  };
+};
+
+/**
+ * Locked colours as palette entries for a swatch picker, identified by
+ * their index.
+ */
+export const toSwatches = (colors: string[]): PaletteEntry[] =>
+  colors.map((color, id) => ({ id, name: '', color }));
+
+export const findSwatchId = (
+  swatches: PaletteEntry[],
+  color: string
+): number | null =>
+  swatches.find((entry) => entry.color.toLowerCase() === color.toLowerCase())
+    ?.id ?? null;
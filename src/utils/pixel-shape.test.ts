@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { getCachedMask, getMaskCacheStats } from './pixel-shape';
+
+describe('mask cache', () => {
+  it('counts hits and misses', () => {
+    const before = getMaskCacheStats();
+    const mask = getCachedMask('box', 7, 3, {});
+
+    expect(getCachedMask('box', 7, 3, {})).toBe(mask);
+    const after = getMaskCacheStats();
+    expect(after.misses - before.misses).toBe(1);
+    expect(after.hits - before.hits).toBe(1);
+  });
+
+  it('evicts the least recently used mask once full', () => {
+    const first = getCachedMask('box', 1, 1, {});
+    const { capacity } = getMaskCacheStats();
+    for (let width = 2; width <= capacity + 1; width++) {
+      getCachedMask('box', width, 2, {});
+    }
+
+    expect(getMaskCacheStats().size).toBe(capacity);
+    expect(getCachedMask('box', 1, 1, {})).not.toBe(first);
+  });
+});
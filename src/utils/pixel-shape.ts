@@ -1,168 +1,382 @@
-import type { ShapeType } from '../constants/pixel-shape';
+import type {
+  OutlineConnectivity,
+  OutlineStyle,
+  Point,
+  ShapeData,
+  ShapeOrientation,
+  ShapeParams,
+  ShapeType,
+} from '../constants/pixel-shape';
+import { getShapeDefinition } from '../shapes';
+import { shiftToOrigin } from '../shapes/geometry';
+import {
+  createEmptyMask,
+  createMaskFrom,
+  getMaskPixel,
+  setMaskPixel,
+  type ShapeMask,
+} from '../shapes/mask';
+import { getShapeMask } from '../shapes/mask-cache';
+import { hslToRgb, rgbToHsl } from './color-space';
+import { formatColor, toRgba } from './css-color';
+import { createLruCache } from './lru-cache';
+import {
+  getOrientedFootprint,
+  orientPoint,
+} from './shape-orientation';
 
-// Shape mask cache - stores computed masks to avoid recalculation
-const maskCache = new Map<string, boolean[][]>();
+export { isPointInEllipse } from '../shapes/geometry';
+export {
+  createShapeMask,
+  getCachedMask,
+  getMaskCacheStats,
+  getShapeMask,
+} from '../shapes/mask-cache';
 
 /**
- * Returns a cached shape mask, computing it only if not already cached.
- * This significantly reduces CPU usage during hit-testing and rendering.
+ * A shape's pixels split into fill and outline. Rotation and outlines
+ * placed outside the mask make the raster larger than the shape, so it
+ * carries an offset from the shape position.
  */
-export const getCachedMask = (
-  shapeType: ShapeType,
-  width: number,
-  height: number
-): boolean[][] => {
-  const key = `${shapeType}-${width}-${height}`;
-  
-  const cached = maskCache.get(key);
+export interface ShapeRaster {
+  offsetX: number;
+  offsetY: number;
+  width: number;
+  height: number;
+  fill: ShapeMask;
+  outline: ShapeMask;
+}
+
+// Raster cache - outlines are derived from the cached masks
+const MAX_CACHED_RASTERS = 256;
+const rasterCache = createLruCache<string, ShapeRaster>(MAX_CACHED_RASTERS);
+
+const ORTHOGONAL_NEIGHBOURS = [[0, -1], [-1, 0], [1, 0], [0, 1]];
+const ALL_NEIGHBOURS = [
+  [-1, -1], [0, -1], [1, -1],
+  [-1, 0], [1, 0],
+  [-1, 1], [0, 1], [1, 1],
+];
+
+/**
+ * Returns the cached fill/outline raster for a shape. Fill-only shapes
+ * have no outline, so their outline style is ignored.
+ */
+export const getCachedRaster = (
+  shape: Pick<
+    ShapeData,
+    'type' | 'width' | 'height' | 'params' | 'fillMode' | 'outlineStyle' | 'orientation'
+  >
+): ShapeRaster => {
+  const style = shape.fillMode === 'fill' ? null : shape.outlineStyle;
+  const key = `${shape.type}-${shape.width}-${shape.height}-${JSON.stringify(shape.params)}-${JSON.stringify(shape.orientation)}-${JSON.stringify(style)}`;
+
+  const cached = rasterCache.get(key);
   if (cached) return cached;
-  
-  const mask = createShapeMask(shapeType, width, height);
-  maskCache.set(key, mask);
-  return mask;
+
+  const raster = createShapeRaster(
+    shape.type,
+    shape.width,
+    shape.height,
+    shape.params,
+    shape.orientation,
+    style
+  );
+  rasterCache.set(key, raster);
+  return raster;
 };
 
-// Helper function to darken a HEX color and apply opacity
-export const darkenColor = (hexColor: string, percent: number, alpha = 1): string => {
-  if (!hexColor) return `rgba(0,0,0,${alpha})`;
-  
-  let hex = hexColor.replace("#", "");
-  if (hex.length === 3) {
-    hex = hex
-      .split("")
-      .map((char) => char + char)
-      .join("");
+/**
+ * Whether the outline neighbours of a pixel stay 8-connected to each other
+ * without it, i.e. whether removing it can't split the outline.
+ */
+const isRemovableOutlinePixel = (
+  x: number,
+  y: number,
+  isOutline: (x: number, y: number) => boolean
+): boolean => {
+  const cells = ALL_NEIGHBOURS.filter(([dx, dy]) => isOutline(x + dx, y + dy));
+  if (cells.length === 0) return false;
+
+  const reached = new Set([0]);
+  const queue = [0];
+  while (queue.length > 0) {
+    const [cx, cy] = cells[queue.shift()!];
+    cells.forEach(([nx, ny], i) => {
+      if (!reached.has(i) && Math.abs(nx - cx) <= 1 && Math.abs(ny - cy) <= 1) {
+        reached.add(i);
+        queue.push(i);
+      }
+    });
   }
+  return reached.size === cells.length;
+};
+
+/**
+ * Pixel-perfect pass: removes the corner pixel of every L-shaped step, so
+ * diagonals become single-pixel staircases. Of the two candidate corners,
+ * the one removed is the one whose removal keeps the silhouette: inside
+ * the mask it becomes fill, outside it becomes transparent.
+ */
+const removeOutlineDoubles = (
+  outline: ShapeMask,
+  inMask: (x: number, y: number) => boolean
+): void => {
+  const isOutline = (x: number, y: number) => getMaskPixel(outline, x, y);
 
-  const num = parseInt(hex, 16);
-  const r = Math.max(0, Math.floor(((num >> 16) & 0xff) * (1 - percent)));
-  const g = Math.max(0, Math.floor(((num >> 8) & 0xff) * (1 - percent)));
-  const b = Math.max(0, Math.floor((num & 0xff) * (1 - percent)));
+  for (let y = 0; y < outline.height; y++) {
+    for (let x = 0; x < outline.width; x++) {
+      if (!isOutline(x, y)) continue;
 
-  return `rgba(${r},${g},${b},${alpha})`;
+      for (const [dx, dy] of [[-1, -1], [1, -1], [-1, 1], [1, 1]]) {
+        // An L: one horizontal and one vertical neighbour with the corner
+        // between them open (a filled 2x2 block is not a step)
+        const isStep =
+          isOutline(x + dx, y) &&
+          isOutline(x, y + dy) &&
+          !isOutline(x + dx, y + dy) &&
+          inMask(x, y) !== inMask(x + dx, y + dy);
+
+        if (isStep && isRemovableOutlinePixel(x, y, isOutline)) {
+          setMaskPixel(outline, x, y, false);
+          break;
+        }
+      }
+    }
+  }
 };
 
-// Utility function to check if a point is inside an ellipse
-export const isPointInEllipse = (
-  px: number,
-  py: number,
-  centerX: number,
-  centerY: number,
-  radiusX: number,
-  radiusY: number
-): boolean => {
-  if (radiusX <= 0 || radiusY <= 0) return false;
-  
-  const normalizedX = (px - centerX) / radiusX;
-  const normalizedY = (py - centerY) / radiusY;
-  return normalizedX * normalizedX + normalizedY * normalizedY <= 1;
+/**
+ * Splits an outline's thickness between the inside and outside of the
+ * mask edge.
+ */
+const splitOutlineThickness = (style: OutlineStyle | null) => {
+  const thickness = style?.thickness ?? 0;
+  let insideLayers = thickness;
+  if (style?.placement === 'outside') insideLayers = 0;
+  if (style?.placement === 'center') insideLayers = Math.ceil(thickness / 2);
+  return { insideLayers, outsideLayers: thickness - insideLayers };
 };
 
-// Shape mask generators
-export const createShapeMask = (shapeType: ShapeType, width: number, height: number): boolean[][] => {
-  if (width <= 0 || height <= 0) return [];
-
-  const mask = Array(height)
-    .fill(null)
-    .map(() => Array(width).fill(false));
-
-  const centerX = width / 2;
-  const centerY = height / 2;
-  const radiusX = width / 2;
-  const radiusY = height / 2;
-
-  switch (shapeType) {
-    case "ellipse":
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-          if (
-            isPointInEllipse(
-              x + 0.5,
-              y + 0.5,
-              centerX,
-              centerY,
-              radiusX,
-              radiusY
-            )
-          ) {
-            mask[y][x] = true;
-          }
+export const createShapeRaster = (
+  shapeType: ShapeType,
+  shapeWidth: number,
+  shapeHeight: number,
+  params: ShapeParams,
+  orientation: ShapeOrientation,
+  style: OutlineStyle | null
+): ShapeRaster => {
+  // Outlines are traced on the oriented mask, so they stay one pixel
+  // wide whatever the rotation
+  const footprint = getOrientedFootprint(shapeWidth, shapeHeight, orientation);
+  const mask = getShapeMask({
+    type: shapeType,
+    width: shapeWidth,
+    height: shapeHeight,
+    params,
+    orientation,
+  });
+  const { width, height } = footprint;
+
+  const { insideLayers, outsideLayers } = splitOutlineThickness(style);
+
+  const pad = outsideLayers;
+  const rasterWidth = width + pad * 2;
+  const rasterHeight = height + pad * 2;
+  const inMask = (x: number, y: number) => getMaskPixel(mask, x - pad, y - pad);
+  const outline = createEmptyMask(rasterWidth, rasterHeight);
+  const connectivity = style?.connectivity ?? 4;
+  // Rings of a 4-connected outline grow in all 8 directions so they stay
+  // edge-joined; 8-connected rings only grow orthogonally
+  const neighbours = connectivity === 4 ? ALL_NEIGHBOURS : ORTHOGONAL_NEIGHBOURS;
+
+  // Grows the outline one ring at a time from `frontier`
+  const growLayers = (
+    frontier: [number, number][],
+    layers: number,
+    canGrowInto: (x: number, y: number) => boolean
+  ) => {
+    for (let layer = 0; layer < layers; layer++) {
+      const next: [number, number][] = [];
+      for (const [x, y] of frontier) {
+        for (const [dx, dy] of neighbours) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (ny < 0 || ny >= rasterHeight || nx < 0 || nx >= rasterWidth) continue;
+          if (getMaskPixel(outline, nx, ny) || !canGrowInto(nx, ny)) continue;
+          setMaskPixel(outline, nx, ny, true);
+          next.push([nx, ny]);
         }
       }
-      break;
-
-    case "crescent":
-      const cutRadiusX = radiusX;
-      const cutRadiusY = radiusY;
-      const cutCenterX = centerX + radiusX * 0.5;
-      const cutCenterY = centerY;
-
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-          const pointX = x + 0.5;
-          const pointY = y + 0.5;
-          const inMain = isPointInEllipse(
-            pointX,
-            pointY,
-            centerX,
-            centerY,
-            radiusX,
-            radiusY
-          );
-          const inCut = isPointInEllipse(
-            pointX,
-            pointY,
-            cutCenterX,
-            cutCenterY,
-            cutRadiusX,
-            cutRadiusY
-          );
-          if (inMain && !inCut) {
-            mask[y][x] = true;
-          }
+      frontier = next;
+    }
+  };
+
+  if (insideLayers > 0) {
+    // The first ring follows the shape's own outline rule
+    const edge: [number, number][] = [];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (
+          getMaskPixel(mask, x, y) &&
+          isOutlinePixel(x, y, mask, shapeType, width, height, connectivity)
+        ) {
+          setMaskPixel(outline, x + pad, y + pad, true);
+          edge.push([x + pad, y + pad]);
         }
       }
-      break;
+    }
+    growLayers(edge, insideLayers - 1, inMask);
+  }
 
-    case "box":
-      for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-          mask[y][x] = true;
-        }
+  if (outsideLayers > 0) {
+    const maskPixels: [number, number][] = [];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (getMaskPixel(mask, x, y)) maskPixels.push([x + pad, y + pad]);
       }
-      break;
+    }
+    growLayers(maskPixels, outsideLayers, (x, y) => !inMask(x, y));
+  }
+
+  if (style?.pixelPerfect) {
+    removeOutlineDoubles(outline, inMask);
   }
 
-  return mask;
+  const fill = createMaskFrom(
+    rasterWidth,
+    rasterHeight,
+    (x, y) => !getMaskPixel(outline, x, y) && inMask(x, y)
+  );
+
+  return {
+    offsetX: footprint.offsetX - pad,
+    offsetY: footprint.offsetY - pad,
+    width: rasterWidth,
+    height: rasterHeight,
+    fill,
+    outline,
+  };
+};
+
+// Helper function to darken a color and apply opacity on top of its own
+// alpha. A negative percent lightens towards white instead, and the hue
+// can be rotated by `hueShift` degrees, as for pixel-art shading ramps
+export const darkenColor = (
+  color: string,
+  percent: number,
+  alpha = 1,
+  hueShift = 0
+): string => {
+  if (!color) return `rgba(0,0,0,${alpha})`;
+
+  const rgba = toRgba(color);
+  let { r, g, b } = rgba;
+  if (hueShift !== 0) {
+    const hsl = rgbToHsl({ r, g, b });
+    ({ r, g, b } = hslToRgb({ ...hsl, h: hsl.h + hueShift }));
+  }
+  const shade = (channel: number) =>
+    percent >= 0
+      ? Math.max(0, Math.floor(channel * (1 - percent)))
+      : Math.min(255, Math.round(channel + (255 - channel) * -percent));
+
+  return `rgba(${shade(r)},${shade(g)},${shade(b)},${rgba.a * alpha})`;
+};
+
+// Blends two colors, alpha included, `amount` 0 giving the first and 1
+// the second
+export const mixColors = (
+  fromColor: string,
+  toColor: string,
+  amount: number
+): string => {
+  const from = toRgba(fromColor);
+  const to = toRgba(toColor);
+  const mix = (a: number, b: number) => a + (b - a) * amount;
+
+  return formatColor({
+    r: Math.round(mix(from.r, to.r)),
+    g: Math.round(mix(from.g, to.g)),
+    b: Math.round(mix(from.b, to.b)),
+    a: mix(from.a, to.a),
+  });
 };
 
 // Check if pixel is on outline
 export const isOutlinePixel = (
   x: number,
   y: number,
-  mask: boolean[][],
+  mask: ShapeMask,
   shapeType: ShapeType,
   width: number,
-  height: number
+  height: number,
+  connectivity: OutlineConnectivity = 4
 ): boolean => {
-  if (shapeType === "box") {
-    return x === 0 || x === width - 1 || y === 0 || y === height - 1;
-  }
+  return getShapeDefinition(shapeType).isOutlinePixel(
+    x,
+    y,
+    mask,
+    width,
+    height,
+    connectivity
+  );
+};
 
-  // Check neighbors for ellipse and crescent
-  for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
-    for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
-      if (nx === x && ny === y) continue;
-      if (!mask[ny][nx]) return true;
-    }
-  }
+/**
+ * World-space bounds of the pixels a shape's mask can cover, following
+ * its rotation. Outlines placed outside the mask are not included.
+ */
+export const getShapeBounds = (
+  shape: Pick<ShapeData, 'width' | 'height' | 'orientation' | 'position'>
+): { x: number; y: number; width: number; height: number } => {
+  const footprint = getOrientedFootprint(shape.width, shape.height, shape.orientation);
+  return {
+    x: shape.position.x + footprint.offsetX,
+    y: shape.position.y + footprint.offsetY,
+    width: footprint.width,
+    height: footprint.height,
+  };
+};
 
-  // Check bounding box edges
-  if (x === 0 || x === width - 1 || y === 0 || y === height - 1) {
-    return mask[y][x];
-  }
+/**
+ * World-space bounds of everything a shape can paint, outlines included.
+ * They match its raster's without rasterizing it.
+ */
+export const getShapePaintBounds = (
+  shape: Pick<
+    ShapeData,
+    'width' | 'height' | 'orientation' | 'position' | 'fillMode' | 'outlineStyle'
+  >
+): { x: number; y: number; width: number; height: number } => {
+  const bounds = getShapeBounds(shape);
+  const { outsideLayers: pad } = splitOutlineThickness(
+    shape.fillMode === 'fill' ? null : shape.outlineStyle
+  );
+  return {
+    x: bounds.x - pad,
+    y: bounds.y - pad,
+    width: bounds.width + pad * 2,
+    height: bounds.height + pad * 2,
+  };
+};
+
+/**
+ * World-space pixel positions of a shape's on-canvas handles, if its
+ * definition exposes any.
+ */
+export const getShapeHandles = (shape: ShapeData): Point[] => {
+  const { handleParam } = getShapeDefinition(shape.type);
+  if (!handleParam) return [];
 
-  return false;
+  const points = (shape.params as Record<string, Point[]>)[handleParam];
+  return shiftToOrigin(points).map((point) => {
+    const oriented = orientPoint(point, shape.width, shape.height, shape.orientation);
+    return {
+      x: shape.position.x + oriented.x,
+      y: shape.position.y + oriented.y,
+    };
+  });
 };
 
 // Helper functions for touch distance calculation
@@ -0,0 +1,56 @@
+import type { Shading } from '../constants/pixel-shape';
+import { DEFAULT_COLOR_RAMP } from '../constants/pixel-shape';
+import { generateColorRamp } from './color-ramp';
+
+// Bands stop short of the ramp's ends so shading stays near the base colour
+const SHADING_SPREAD = 0.6;
+// Light elevation above the canvas, in radians
+const LIGHT_ELEVATION = Math.PI / 4;
+
+/**
+ * HEX colours of the shading bands from darkest shadow to brightest
+ * highlight, taken from the default colour ramp through the base colour.
+ */
+export const getShadingRamp = (baseColor: string, bands: number): string[] =>
+  generateColorRamp(
+    baseColor,
+    { ...DEFAULT_COLOR_RAMP, steps: bands },
+    SHADING_SPREAD
+  );
+
+/**
+ * The band, from 0 (shadow) to `bands - 1` (highlight), of a pixel at
+ * shape-local coordinates within `width` x `height` bounds. The bounds
+ * are lit as a sphere, or as a cylinder along their longer side.
+ */
+export const getShadingBand = (
+  shading: Shading,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): number => {
+  // Pixel centre, normalised so the bounds run from -1 to 1
+  let u = ((x + 0.5) / width) * 2 - 1;
+  let v = ((y + 0.5) / height) * 2 - 1;
+  if (shading.type === 'cylinder') {
+    if (height >= width) v = 0;
+    else u = 0;
+  }
+
+  // Surface normal; corners outside the form face straight outwards
+  const z = Math.sqrt(Math.max(0, 1 - u * u - v * v));
+  const length = Math.hypot(u, v, z);
+
+  const radians = (shading.lightAngle * Math.PI) / 180;
+  const spread = Math.cos(LIGHT_ELEVATION);
+  const intensity =
+    (u * Math.cos(radians) * spread +
+      v * Math.sin(radians) * spread +
+      z * Math.sin(LIGHT_ELEVATION)) /
+    length;
+
+  // Cubed to pull the highlight towards the light and widen the shadow
+  const level = ((intensity + 1) / 2) ** 3;
+  return Math.max(0, Math.min(shading.bands - 1, Math.floor(level * shading.bands)));
+};
@@ -0,0 +1,197 @@
+import type { Point, ShapeOrientation } from '../constants/pixel-shape';
+import { createMaskFrom, getMaskPixel, type ShapeMask } from '../shapes/mask';
+
+/**
+ * The area an oriented shape covers, relative to its unrotated box.
+ */
+export interface OrientedFootprint {
+  offsetX: number;
+  offsetY: number;
+  width: number;
+  height: number;
+}
+
+const normalizeRotation = (rotation: number) => ((rotation % 360) + 360) % 360;
+
+export const isIdentityOrientation = ({ rotation, flipX, flipY }: ShapeOrientation) =>
+  normalizeRotation(rotation) === 0 && !flipX && !flipY;
+
+/**
+ * Quarter turns are exact permutations of the pixels; any other angle
+ * is resampled.
+ */
+const getQuarterTurns = (rotation: number): number | null => {
+  const normalized = normalizeRotation(rotation);
+  return normalized % 90 === 0 ? normalized / 90 : null;
+};
+
+/**
+ * Rotates a pixel index clockwise by whole quarter turns within a
+ * `width` x `height` grid.
+ */
+const rotatePixelQuarter = (
+  { x, y }: Point,
+  width: number,
+  height: number,
+  turns: number
+): Point => {
+  switch (turns) {
+    case 1:
+      return { x: height - 1 - y, y: x };
+    case 2:
+      return { x: width - 1 - x, y: height - 1 - y };
+    case 3:
+      return { x: y, y: width - 1 - x };
+    default:
+      return { x, y };
+  }
+};
+
+const flipPixel = (
+  { x, y }: Point,
+  width: number,
+  height: number,
+  { flipX, flipY }: ShapeOrientation
+): Point => ({
+  x: flipX ? width - 1 - x : x,
+  y: flipY ? height - 1 - y : y,
+});
+
+/**
+ * Size of a free rotation's bounding box, with the same parity as the
+ * unrotated side so both stay centred on the same point.
+ */
+const getRotatedSide = (side: number, rotatedSide: number) => {
+  const size = Math.max(1, Math.ceil(rotatedSide - 1e-9));
+  return (size - side) % 2 === 0 ? size : size + 1;
+};
+
+export const getOrientedFootprint = (
+  width: number,
+  height: number,
+  orientation: ShapeOrientation
+): OrientedFootprint => {
+  const turns = getQuarterTurns(orientation.rotation);
+  let footprintWidth: number;
+  let footprintHeight: number;
+
+  if (turns !== null) {
+    const swapped = turns % 2 === 1;
+    footprintWidth = swapped ? height : width;
+    footprintHeight = swapped ? width : height;
+  } else {
+    const radians = (orientation.rotation * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(radians));
+    const sin = Math.abs(Math.sin(radians));
+    footprintWidth = getRotatedSide(width, width * cos + height * sin);
+    footprintHeight = getRotatedSide(height, width * sin + height * cos);
+  }
+
+  return {
+    offsetX: Math.floor((width - footprintWidth) / 2),
+    offsetY: Math.floor((height - footprintHeight) / 2),
+    width: footprintWidth,
+    height: footprintHeight,
+  };
+};
+
+/**
+ * Maps a pixel of the unrotated shape into its footprint, in shape-local
+ * coordinates.
+ */
+export const orientPoint = (
+  point: Point,
+  width: number,
+  height: number,
+  orientation: ShapeOrientation
+): Point => {
+  const footprint = getOrientedFootprint(width, height, orientation);
+  const flipped = flipPixel(point, width, height, orientation);
+  const turns = getQuarterTurns(orientation.rotation);
+
+  let oriented: Point;
+  if (turns !== null) {
+    oriented = rotatePixelQuarter(flipped, width, height, turns);
+  } else {
+    // Rotate the pixel centre about the shape centre
+    const radians = (orientation.rotation * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const dx = flipped.x + 0.5 - width / 2;
+    const dy = flipped.y + 0.5 - height / 2;
+    oriented = {
+      x: Math.floor(dx * cos - dy * sin + footprint.width / 2),
+      y: Math.floor(dx * sin + dy * cos + footprint.height / 2),
+    };
+  }
+
+  return {
+    x: oriented.x + footprint.offsetX,
+    y: oriented.y + footprint.offsetY,
+  };
+};
+
+/**
+ * Maps a shape-local pixel back to the unrotated shape pixel it shows.
+ * Pixels outside the footprint map outside the shape.
+ */
+export const unorientPoint = (
+  point: Point,
+  width: number,
+  height: number,
+  orientation: ShapeOrientation
+): Point => {
+  const footprint = getOrientedFootprint(width, height, orientation);
+  const local = {
+    x: point.x - footprint.offsetX,
+    y: point.y - footprint.offsetY,
+  };
+  const turns = getQuarterTurns(orientation.rotation);
+
+  let unrotated: Point;
+  if (turns !== null) {
+    unrotated = rotatePixelQuarter(
+      local,
+      footprint.width,
+      footprint.height,
+      (4 - turns) % 4
+    );
+  } else {
+    // Nearest-neighbour: the source pixel under the rotated pixel centre
+    const radians = (orientation.rotation * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const dx = local.x + 0.5 - footprint.width / 2;
+    const dy = local.y + 0.5 - footprint.height / 2;
+    unrotated = {
+      x: Math.floor(dx * cos + dy * sin + width / 2),
+      y: Math.floor(-dx * sin + dy * cos + height / 2),
+    };
+  }
+
+  return flipPixel(unrotated, width, height, orientation);
+};
+
+/**
+ * Re-rasterizes a mask under an orientation with nearest-neighbour
+ * sampling. The result covers the oriented footprint.
+ */
+export const orientMask = (
+  mask: ShapeMask,
+  width: number,
+  height: number,
+  orientation: ShapeOrientation
+): ShapeMask => {
+  if (isIdentityOrientation(orientation)) return mask;
+
+  const footprint = getOrientedFootprint(width, height, orientation);
+  return createMaskFrom(footprint.width, footprint.height, (x, y) => {
+    const source = unorientPoint(
+      { x: x + footprint.offsetX, y: y + footprint.offsetY },
+      width,
+      height,
+      orientation
+    );
+    return getMaskPixel(mask, source.x, source.y);
+  });
+};
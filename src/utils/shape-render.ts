@@ -0,0 +1,256 @@
+import type { BlendMode, ShapeData } from '../constants/pixel-shape';
+import { getMaskPixel } from '../shapes/mask';
+import { getGradientStep } from './fill-gradient';
+import { isPatternPixel } from './fill-pattern';
+import {
+  darkenColor,
+  getCachedRaster,
+  getShapeBounds,
+  mixColors,
+} from './pixel-shape';
+import { snapToPalette } from './palette';
+import { getShadingBand, getShadingRamp } from './shading';
+
+// How far the automatic outline darkens the base colour
+const AUTO_OUTLINE_DARKEN = 0.3;
+
+// Canvas operations matching the CSS blend modes used on screen; additive
+// blending is called "lighter" on a canvas
+export const BLEND_MODE_OPERATIONS: Record<BlendMode, GlobalCompositeOperation> = {
+  normal: 'source-over',
+  multiply: 'multiply',
+  screen: 'screen',
+  overlay: 'overlay',
+  add: 'lighter',
+  darken: 'darken',
+  lighten: 'lighten',
+};
+
+/**
+ * Turns HEX colours into the shape's paint at its opacity. Under a
+ * palette lock every colour, including derived ones such as shading
+ * bands, is snapped to the nearest locked colour first.
+ */
+const createPainter = (shape: ShapeData, lockedColors: string[] | null) => {
+  const paints = new Map<string, string>();
+  return (color: string): string => {
+    let paint = paints.get(color);
+    if (paint === undefined) {
+      const snapped = lockedColors ? snapToPalette(color, lockedColors) : color;
+      paint = darkenColor(snapped, 0, shape.opacity);
+      paints.set(color, paint);
+    }
+    return paint;
+  };
+};
+
+const renderKeys = new WeakMap<ShapeData, string>();
+
+/**
+ * Identifies what a shape's bitmap looks like, so it is only redrawn
+ * when this changes. Position is left out, since moving a shape doesn't
+ * change its pixels, except for patterned or dithered fills, which are
+ * anchored to the world.
+ */
+export const getShapeRenderKey = (shape: ShapeData): string => {
+  let key = renderKeys.get(shape);
+  if (key === undefined) {
+    const isPatterned =
+      shape.fillPattern.type !== 'solid' ||
+      (shape.fillGradient.type !== 'none' && shape.fillGradient.dither);
+    key = [
+      shape.type,
+      shape.width,
+      shape.height,
+      JSON.stringify(shape.params),
+      shape.baseColor,
+      shape.outlineColor,
+      JSON.stringify(shape.outlineStyle),
+      JSON.stringify(shape.orientation),
+      shape.fillMode,
+      JSON.stringify(shape.fillPattern),
+      JSON.stringify(shape.fillGradient),
+      JSON.stringify(shape.shading),
+      shape.opacity,
+      ...(isPatterned ? [shape.position.x, shape.position.y] : []),
+    ].join('-');
+    renderKeys.set(shape, key);
+  }
+  return key;
+};
+
+/**
+ * Resolves the paint for fill and outline pixels according to the fill
+ * mode. A null entry means those pixels stay transparent.
+ */
+export const getShapePaint = (
+  shape: ShapeData,
+  lockedColors: string[] | null = null
+): { fill: string | null; outline: string | null } => {
+  const paint = createPainter(shape, lockedColors);
+  const fill = paint(shape.baseColor);
+  const outline = paint(
+    shape.outlineColor ?? darkenColor(shape.baseColor, AUTO_OUTLINE_DARKEN)
+  );
+
+  switch (shape.fillMode) {
+    case 'outline':
+      return { fill: null, outline };
+    case 'fill':
+      return { fill, outline: fill };
+    case 'fill-outline':
+      return { fill, outline };
+  }
+};
+
+/**
+ * Whether a shape paints the pixel at shape-local coordinates, so
+ * transparent interiors of outline-only shapes don't catch clicks.
+ */
+export const isShapePixelPainted = (
+  shape: ShapeData,
+  x: number,
+  y: number
+): boolean => {
+  const raster = getCachedRaster(shape);
+  const rx = x - raster.offsetX;
+  const ry = y - raster.offsetY;
+  if (getMaskPixel(raster.outline, rx, ry)) return true;
+  return shape.fillMode !== 'outline' && getMaskPixel(raster.fill, rx, ry);
+};
+
+/**
+ * Renders a shape's raster to a canvas at 1x scale. The canvas must be
+ * the raster's size and placed at the raster offset. Patterned and
+ * dithered fills depend on the shape position, since patterns are
+ * anchored to the world. Colours are snapped to `lockedColors` if given.
+ */
+export const drawShapeToCanvas = (
+  ctx: CanvasRenderingContext2D,
+  shapeData: ShapeData,
+  lockedColors: string[] | null = null
+) => {
+  const raster = getCachedRaster(shapeData);
+  const painter = createPainter(shapeData, lockedColors);
+  const paint = getShapePaint(shapeData, lockedColors);
+  const pattern = shapeData.fillPattern;
+  const patternColor = painter(pattern.color);
+  // Filled shapes paint their outline pixels as fill too
+  const isOutlineFilled = shapeData.fillMode === 'fill';
+  const originX = shapeData.position.x + raster.offsetX;
+  const originY = shapeData.position.y + raster.offsetY;
+  // Gradients run across the mask's bounds, one flat colour per band
+  const gradient = shapeData.fillGradient;
+  const bounds = getShapeBounds(shapeData);
+  const gradientColors =
+    gradient.type === 'none'
+      ? null
+      : Array.from({ length: gradient.steps }, (_, step) =>
+          painter(
+            mixColors(shapeData.baseColor, gradient.color, step / (gradient.steps - 1))
+          )
+        );
+  // Shading bands are lit across the same bounds; a gradient replaces them
+  const shading = shapeData.shading;
+  const shadingColors =
+    shading.type === 'none'
+      ? null
+      : getShadingRamp(shapeData.baseColor, shading.bands).map(painter);
+
+  // Clear canvas
+  ctx.clearRect(0, 0, raster.width, raster.height);
+
+  for (let y = 0; y < raster.height; y++) {
+    for (let x = 0; x < raster.width; x++) {
+      const inFill = getMaskPixel(raster.fill, x, y);
+      const inOutline = getMaskPixel(raster.outline, x, y);
+      const isFill = inFill || (isOutlineFilled && inOutline);
+      let color = inOutline
+        ? paint.outline
+        : inFill
+          ? paint.fill
+          : null;
+      const worldX = originX + x;
+      const worldY = originY + y;
+      if (color && isFill) {
+        if (isPatternPixel(pattern, worldX, worldY)) {
+          color = patternColor;
+        } else if (gradientColors) {
+          color =
+            gradientColors[
+              getGradientStep(
+                gradient,
+                worldX - bounds.x,
+                worldY - bounds.y,
+                bounds.width,
+                bounds.height,
+                worldX,
+                worldY
+              )
+            ];
+        } else if (shadingColors) {
+          color =
+            shadingColors[
+              getShadingBand(
+                shading,
+                worldX - bounds.x,
+                worldY - bounds.y,
+                bounds.width,
+                bounds.height
+              )
+            ];
+        }
+      }
+
+      if (color) {
+        ctx.fillStyle = color;
+        ctx.fillRect(x, y, 1, 1);
+      }
+      // Unpainted pixels remain transparent (already cleared)
+    }
+  }
+};
+
+/**
+ * Composites shapes, bottom first, into a canvas just large enough to
+ * hold them, honouring each shape's blend mode. Returns null when there
+ * is nothing to draw.
+ */
+export const renderShapesToCanvas = (
+  shapes: ShapeData[],
+  lockedColors: string[] | null = null
+): HTMLCanvasElement | null => {
+  if (shapes.length === 0) return null;
+
+  const placed = shapes.map((shape) => {
+    const raster = getCachedRaster(shape);
+    return {
+      shape,
+      raster,
+      x: shape.position.x + raster.offsetX,
+      y: shape.position.y + raster.offsetY,
+    };
+  });
+  const left = Math.min(...placed.map(({ x }) => x));
+  const top = Math.min(...placed.map(({ y }) => y));
+  const right = Math.max(...placed.map(({ x, raster }) => x + raster.width));
+  const bottom = Math.max(...placed.map(({ y, raster }) => y + raster.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = right - left;
+  canvas.height = bottom - top;
+  const ctx = canvas.getContext('2d');
+  // Each shape is drawn alone first, then blended onto the layers below
+  const layer = document.createElement('canvas');
+  const layerCtx = layer.getContext('2d');
+  if (!ctx || !layerCtx) return null;
+
+  for (const { shape, raster, x, y } of placed) {
+    layer.width = raster.width;
+    layer.height = raster.height;
+    drawShapeToCanvas(layerCtx, shape, lockedColors);
+    ctx.globalCompositeOperation = BLEND_MODE_OPERATIONS[shape.blendMode];
+    ctx.drawImage(layer, x - left, y - top);
+  }
+  return canvas;
+};
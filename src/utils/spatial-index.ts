@@ -0,0 +1,135 @@
+import type { ShapeData } from '../constants/pixel-shape';
+import { getShapePaintBounds } from './pixel-shape';
+
+// A uniform grid over world pixels for finding the shapes near a point or
+// rectangle without visiting every shape, as culling, hit testing and
+// snapping need in large documents. Each shape is filed under every cell
+// its paint bounds overlap.
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SpatialIndex {
+  /** Indexed shapes, bottom first */
+  shapes: ShapeData[];
+  /** Paint bounds of each shape, by position in `shapes` */
+  bounds: Rect[];
+  /** Positions in `shapes` of the shapes overlapping each cell */
+  cells: Map<string, number[]>;
+  /** Positions of shapes covering too many cells to file one by one */
+  oversized: number[];
+  /** Union of all paint bounds, or null if there are no shapes */
+  extent: Rect | null;
+}
+
+// World pixels along a cell side
+const CELL_SIZE = 64;
+// Shapes covering more cells than this are checked by every query
+// instead, so one huge shape doesn't fill thousands of cells
+const MAX_SHAPE_CELLS = 256;
+
+const cellKey = (column: number, row: number) => `${column},${row}`;
+
+/**
+ * The cells a rectangle overlaps, inclusive. A rectangle without area
+ * still covers the cell it sits in.
+ */
+const getCellRange = (rect: Rect) => {
+  const left = Math.floor(rect.x / CELL_SIZE);
+  const top = Math.floor(rect.y / CELL_SIZE);
+  return {
+    left,
+    top,
+    right: Math.max(left, Math.ceil((rect.x + rect.width) / CELL_SIZE) - 1),
+    bottom: Math.max(top, Math.ceil((rect.y + rect.height) / CELL_SIZE) - 1),
+  };
+};
+
+const intersects = (a: Rect, b: Rect) =>
+  a.x < b.x + b.width &&
+  b.x < a.x + a.width &&
+  a.y < b.y + b.height &&
+  b.y < a.y + a.height;
+
+const getUnion = (a: Rect, b: Rect): Rect => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+};
+
+export const createSpatialIndex = (shapes: ShapeData[]): SpatialIndex => {
+  const bounds = shapes.map(getShapePaintBounds);
+  const cells = new Map<string, number[]>();
+  const oversized: number[] = [];
+  let extent: Rect | null = null;
+
+  bounds.forEach((rect, i) => {
+    extent = extent ? getUnion(extent, rect) : rect;
+
+    const { left, top, right, bottom } = getCellRange(rect);
+    if ((right - left + 1) * (bottom - top + 1) > MAX_SHAPE_CELLS) {
+      oversized.push(i);
+      return;
+    }
+    for (let row = top; row <= bottom; row++) {
+      for (let column = left; column <= right; column++) {
+        const key = cellKey(column, row);
+        const cell = cells.get(key);
+        if (cell) cell.push(i);
+        else cells.set(key, [i]);
+      }
+    }
+  });
+
+  return { shapes, bounds, cells, oversized, extent };
+};
+
+/**
+ * Shapes whose paint bounds overlap any of the world rectangles, bottom
+ * first.
+ */
+export const querySpatialIndex = (
+  index: SpatialIndex,
+  ...rects: Rect[]
+): ShapeData[] => {
+  const found = new Set(index.oversized);
+
+  for (const rect of rects) {
+    const { left, top, right, bottom } = getCellRange(rect);
+    // A rectangle over more cells than are filled, as when zoomed far
+    // out, is quicker to check shape by shape
+    if ((right - left + 1) * (bottom - top + 1) > index.cells.size) {
+      index.shapes.forEach((_, i) => found.add(i));
+      break;
+    }
+    for (let row = top; row <= bottom; row++) {
+      for (let column = left; column <= right; column++) {
+        index.cells.get(cellKey(column, row))?.forEach((i) => found.add(i));
+      }
+    }
+  }
+
+  return [...found]
+    .sort((a, b) => a - b)
+    .filter((i) => rects.some((rect) => intersects(index.bounds[i], rect)))
+    .map((i) => index.shapes[i]);
+};
+
+/**
+ * Shapes that may paint the world pixel under a point, bottom first.
+ */
+export const querySpatialIndexAt = (
+  index: SpatialIndex,
+  x: number,
+  y: number
+): ShapeData[] =>
+  querySpatialIndex(index, { x: Math.floor(x), y: Math.floor(y), width: 1, height: 1 });
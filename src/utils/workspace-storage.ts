@@ -1,5 +1,42 @@
-import type { ShapeData } from '../constants/pixel-shape';
-import { MAX_ZOOM, MIN_ZOOM } from '../constants/pixel-shape';
+import type {
+  BlendMode,
+  CompositeParams,
+  FillMode,
+  FillPatternType,
+  GradientType,
+  OutlineConnectivity,
+  OutlinePlacement,
+  PaletteEntry,
+  RendererMode,
+  ShadingType,
+  ShapeData,
+} from '../constants/pixel-shape';
+import {
+  BLEND_MODES,
+  DEFAULT_FILL_GRADIENT,
+  DEFAULT_FILL_PATTERN,
+  DEFAULT_SHADING,
+  DEFAULT_ORIENTATION,
+  DEFAULT_OUTLINE_STYLE,
+  FILL_MODES,
+  FILL_PATTERN_TYPES,
+  GRADIENT_TYPES,
+  MAX_GRADIENT_STEPS,
+  MAX_OUTLINE_THICKNESS,
+  MAX_PATTERN_TILE_SIZE,
+  MAX_SHADING_BANDS,
+  MAX_ZOOM,
+  MIN_SHADING_BANDS,
+  MIN_ZOOM,
+  OUTLINE_CONNECTIVITIES,
+  OUTLINE_PLACEMENTS,
+  RENDERER_MODES,
+  SHADING_TYPES,
+} from '../constants/pixel-shape';
+import { isPaletteLock } from '../constants/palettes';
+import { getShapeDefinition, isShapeType } from '../shapes';
+import { isColor, normalizeColor } from './css-color';
+import { isValidPatternTile } from './fill-pattern';
 import {
   getPersistedWorkspace,
   type PersistedWorkspace,
@@ -13,8 +50,96 @@ const DEBOUNCE_MS = 400;
 // Re-export type for external use
 export type { PersistedWorkspace as WorkspaceState };
 
+function isValidOutlineStyle(style: unknown): boolean {
+  if (typeof style !== 'object' || style === null) return false;
+
+  const o = style as Record<string, unknown>;
+  return (
+    Number.isInteger(o.thickness) &&
+    (o.thickness as number) >= 1 &&
+    (o.thickness as number) <= MAX_OUTLINE_THICKNESS &&
+    OUTLINE_PLACEMENTS.includes(o.placement as OutlinePlacement) &&
+    OUTLINE_CONNECTIVITIES.includes(o.connectivity as OutlineConnectivity) &&
+    typeof o.pixelPerfect === 'boolean'
+  );
+}
+
+function isValidOrientation(orientation: unknown): boolean {
+  if (typeof orientation !== 'object' || orientation === null) return false;
+
+  const o = orientation as Record<string, unknown>;
+  return (
+    typeof o.rotation === 'number' &&
+    Number.isFinite(o.rotation) &&
+    typeof o.flipX === 'boolean' &&
+    typeof o.flipY === 'boolean'
+  );
+}
+
+function isValidFillPattern(pattern: unknown): boolean {
+  if (typeof pattern !== 'object' || pattern === null) return false;
+
+  const p = pattern as Record<string, unknown>;
+  return (
+    FILL_PATTERN_TYPES.includes(p.type as FillPatternType) &&
+    isColor(p.color) &&
+    typeof p.density === 'number' &&
+    p.density >= 0 &&
+    p.density <= 1 &&
+    isValidPatternTile(p.tile, MAX_PATTERN_TILE_SIZE)
+  );
+}
+
+function isValidFillGradient(gradient: unknown): boolean {
+  if (typeof gradient !== 'object' || gradient === null) return false;
+
+  const g = gradient as Record<string, unknown>;
+  const isFraction = (value: unknown) =>
+    typeof value === 'number' && value >= 0 && value <= 1;
+  return (
+    GRADIENT_TYPES.includes(g.type as GradientType) &&
+    isColor(g.color) &&
+    Number.isInteger(g.steps) &&
+    (g.steps as number) >= 2 &&
+    (g.steps as number) <= MAX_GRADIENT_STEPS &&
+    typeof g.angle === 'number' &&
+    isFraction(g.centerX) &&
+    isFraction(g.centerY) &&
+    typeof g.dither === 'boolean'
+  );
+}
+
+function isValidShading(shading: unknown): boolean {
+  if (typeof shading !== 'object' || shading === null) return false;
+
+  const s = shading as Record<string, unknown>;
+  return (
+    SHADING_TYPES.includes(s.type as ShadingType) &&
+    typeof s.lightAngle === 'number' &&
+    Number.isInteger(s.bands) &&
+    (s.bands as number) >= MIN_SHADING_BANDS &&
+    (s.bands as number) <= MAX_SHADING_BANDS
+  );
+}
+
+function isValidColorRef(ref: unknown): boolean {
+  return ref === null || Number.isInteger(ref);
+}
+
+function isValidPaletteEntry(entry: unknown): entry is PaletteEntry {
+  if (typeof entry !== 'object' || entry === null) return false;
+
+  const e = entry as Record<string, unknown>;
+  return (
+    Number.isInteger(e.id) &&
+    typeof e.name === 'string' &&
+    isColor(e.color)
+  );
+}
+
 /**
- * Validates that a shape has all required fields with correct types.
+ * Validates that a shape has all required fields with correct types,
+ * then defers to the shape definition for its parameters.
  */
 function isValidShape(shape: unknown): shape is ShapeData {
   if (typeof shape !== 'object' || shape === null) return false;
@@ -23,23 +148,92 @@ function isValidShape(shape: unknown): shape is ShapeData {
 
   return (
     typeof s.id === 'number' &&
-    typeof s.type === 'string' &&
-    ['ellipse', 'crescent', 'box'].includes(s.type) &&
+    isShapeType(s.type) &&
     typeof s.width === 'number' &&
     s.width > 0 &&
     typeof s.height === 'number' &&
     s.height > 0 &&
-    typeof s.baseColor === 'string' &&
+    isColor(s.baseColor) &&
+    isValidColorRef(s.baseColorRef) &&
+    (s.outlineColor === null || isColor(s.outlineColor)) &&
+    isValidColorRef(s.outlineColorRef) &&
+    FILL_MODES.includes(s.fillMode as FillMode) &&
+    isValidOutlineStyle(s.outlineStyle) &&
+    isValidOrientation(s.orientation) &&
+    isValidFillPattern(s.fillPattern) &&
+    isValidFillGradient(s.fillGradient) &&
+    isValidShading(s.shading) &&
     typeof s.opacity === 'number' &&
     s.opacity >= 0 &&
     s.opacity <= 1 &&
+    BLEND_MODES.includes(s.blendMode as BlendMode) &&
     typeof s.position === 'object' &&
     s.position !== null &&
     typeof (s.position as { x: unknown; y: unknown }).x === 'number' &&
-    typeof (s.position as { x: unknown; y: unknown }).y === 'number'
+    typeof (s.position as { x: unknown; y: unknown }).y === 'number' &&
+    getShapeDefinition(s.type).validateParams(s.params) &&
+    // Composites hold full shapes, validated the same way
+    (s.type !== 'composite' ||
+      (s.params as CompositeParams).children.every(isValidShape))
   );
 }
 
+/**
+ * Rewrites a saved colour in canonical form, so colours from older saves
+ * or hand-edited files compare equal to the ones the app writes. Anything
+ * that is not a colour is left for validation to reject.
+ */
+function normalizeSavedColor(color: unknown): unknown {
+  return typeof color === 'string' ? (normalizeColor(color) ?? color) : color;
+}
+
+function withNormalizedColor(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null) return value;
+
+  const v = value as Record<string, unknown>;
+  return { ...v, color: normalizeSavedColor(v.color) };
+}
+
+/**
+ * Fills in fields added after a shape may have been saved: parameters,
+ * fill, pattern, gradient, shading, outline, orientation, palette and
+ * blend settings. Shapes saved before then had a one-pixel inside
+ * outline, no fill, no rotation, no palette links and normal blending. Colours are normalized.
+ */
+function withShapeDefaults(shape: unknown): unknown {
+  if (typeof shape !== 'object' || shape === null) return shape;
+
+  const s = shape as Record<string, unknown>;
+  if (!isShapeType(s.type)) return shape;
+
+  const params: Record<string, unknown> = {
+    ...getShapeDefinition(s.type).defaults.params,
+    ...(typeof s.params === 'object' ? s.params : {}),
+  };
+  if (s.type === 'composite' && Array.isArray(params.children)) {
+    params.children = params.children.map(withShapeDefaults);
+  }
+
+  return {
+    ...s,
+    params,
+    baseColor: normalizeSavedColor(s.baseColor),
+    baseColorRef: s.baseColorRef ?? null,
+    outlineColor: normalizeSavedColor(s.outlineColor ?? null),
+    outlineColorRef: s.outlineColorRef ?? null,
+    outlineStyle:
+      typeof s.outlineStyle === 'object'
+        ? { ...DEFAULT_OUTLINE_STYLE, ...s.outlineStyle }
+        : DEFAULT_OUTLINE_STYLE,
+    orientation: s.orientation ?? DEFAULT_ORIENTATION,
+    fillMode: s.fillMode ?? 'outline',
+    fillPattern: withNormalizedColor(s.fillPattern ?? DEFAULT_FILL_PATTERN),
+    fillGradient: withNormalizedColor(s.fillGradient ?? DEFAULT_FILL_GRADIENT),
+    shading: s.shading ?? DEFAULT_SHADING,
+    blendMode: s.blendMode ?? 'normal',
+  };
+}
+
 /**
  * Clamps a number between min and max.
  */
@@ -66,7 +260,9 @@ export function loadWorkspace(): PersistedWorkspace | null {
 
     // Validate shapes array
     if (!Array.isArray(parsed.shapes)) return null;
-    const validShapes = parsed.shapes.filter(isValidShape);
+    const validShapes = parsed.shapes
+      .map(withShapeDefaults)
+      .filter(isValidShape);
 
     // Validate and clamp zoom
     const zoom =
@@ -83,6 +279,15 @@ export function loadWorkspace(): PersistedWorkspace | null {
         ? { x: parsed.canvasOffset.x, y: parsed.canvasOffset.y }
         : { x: 0, y: 0 };
 
+    // Validate palette, which workspaces saved before it existed lack
+    const palette = Array.isArray(parsed.palette)
+      ? parsed.palette.map(withNormalizedColor).filter(isValidPaletteEntry)
+      : [];
+
+    const paletteLock = isPaletteLock(parsed.paletteLock)
+      ? parsed.paletteLock
+      : null;
+
     // Validate booleans with defaults
     const isControlsPanelOpen =
       typeof parsed.isControlsPanelOpen === 'boolean'
@@ -92,14 +297,20 @@ export function loadWorkspace(): PersistedWorkspace | null {
       typeof parsed.isShapeListOpen === 'boolean'
         ? parsed.isShapeListOpen
         : false;
+    const rendererMode: RendererMode = RENDERER_MODES.includes(parsed.rendererMode)
+      ? parsed.rendererMode
+      : 'dom';
 
     return {
       version: VERSION,
       shapes: validShapes,
       zoom,
       canvasOffset,
+      palette,
+      paletteLock,
       isControlsPanelOpen,
       isShapeListOpen,
+      rendererMode,
     };
   } catch (error) {
     console.warn('Failed to load workspace from localStorage', error);
@@ -119,8 +330,11 @@ export function saveWorkspace(state: PersistedWorkspace): void {
       shapes: state.shapes,
       zoom: clamp(state.zoom, MIN_ZOOM, MAX_ZOOM),
       canvasOffset: state.canvasOffset,
+      palette: state.palette,
+      paletteLock: state.paletteLock,
       isControlsPanelOpen: state.isControlsPanelOpen,
       isShapeListOpen: state.isShapeListOpen,
+      rendererMode: state.rendererMode,
     };
 
     localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
@@ -151,11 +365,15 @@ export function initWorkspacePersistence(): () => void {
     const viewChanged =
       state.zoom !== prevState.zoom ||
       state.canvasOffset !== prevState.canvasOffset;
+    const paletteChanged =
+      state.palette !== prevState.palette ||
+      state.paletteLock !== prevState.paletteLock;
     const uiChanged =
       state.isControlsPanelOpen !== prevState.isControlsPanelOpen ||
-      state.isShapeListOpen !== prevState.isShapeListOpen;
+      state.isShapeListOpen !== prevState.isShapeListOpen ||
+      state.rendererMode !== prevState.rendererMode;
 
-    if (!shapesChanged && !viewChanged && !uiChanged) {
+    if (!shapesChanged && !viewChanged && !paletteChanged && !uiChanged) {
       return;
     }
 